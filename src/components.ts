@@ -12,10 +12,17 @@ ${content}
 </Accordion>`;
   }
 
+  /**
+   * Generate an empty element with an explicit id for deep links to land on
+   */
+  anchor(id: string): string {
+    return `<a id="${id}" />`;
+  }
+
   /**
    * Generate an AccordionGroup
    */
-  accordionGroup(accordions: Array<{ title: string; content: string }>): string {
+  accordionGroup(accordions: Array<{ title: string; content: string; id?: string }>): string {
     const items = accordions
       .map((acc) => {
         // Indent content for proper MDX formatting
@@ -23,7 +30,9 @@ ${content}
           .split('\n')
           .map((line) => `  ${line}`)
           .join('\n');
-        return this.accordion(acc.title, indentedContent);
+        // The anchor sits outside the accordion so links land on it while it is collapsed
+        const anchor = acc.id ? `${this.anchor(acc.id)}\n` : '';
+        return `${anchor}${this.accordion(acc.title, indentedContent)}`;
       })
       .join('\n\n');
     return `<AccordionGroup>
@@ -178,6 +187,13 @@ ${content}
 </Expandable>`;
   }
 
+  /**
+   * Generate Icon component
+   */
+  icon(icon: string, size: number = 14): string {
+    return `<Icon icon="${icon}" size={${size}} />`;
+  }
+
   /**
    * Generate Columns component for multi-column layouts
    */
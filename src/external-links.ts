@@ -0,0 +1,283 @@
+import type { DeclarationReference, ReflectionSymbolId } from 'typedoc';
+
+const MDN_BUILTINS_URL =
+  'https://developer.mozilla.org/en-US/docs/Web/JavaScript/Reference/Global_Objects';
+const MDN_WEB_API_URL = 'https://developer.mozilla.org/en-US/docs/Web/API';
+const UTILITY_TYPES_URL = 'https://www.typescriptlang.org/docs/handbook/utility-types.html';
+const NODE_API_URL = 'https://nodejs.org/api';
+
+/**
+ * TypeScript utility types, mapped to their heading anchor in the handbook
+ */
+const UTILITY_TYPE_ANCHORS: Record<string, string> = {
+  Awaited: 'awaitedtype',
+  Partial: 'partialtype',
+  Required: 'requiredtype',
+  Readonly: 'readonlytype',
+  Record: 'recordkeys-type',
+  Pick: 'picktype-keys',
+  Omit: 'omittype-keys',
+  Exclude: 'excludeuniontype-excludedmembers',
+  Extract: 'extracttype-union',
+  NonNullable: 'nonnullabletype',
+  Parameters: 'parameterstype',
+  ConstructorParameters: 'constructorparameterstype',
+  ReturnType: 'returntypetype',
+  InstanceType: 'instancetypetype',
+  NoInfer: 'noinfertype',
+  ThisParameterType: 'thisparametertypetype',
+  OmitThisParameter: 'omitthisparametertype',
+  ThisType: 'thistypetype',
+  Uppercase: 'uppercasestringtype',
+  Lowercase: 'lowercasestringtype',
+  Capitalize: 'capitalizestringtype',
+  Uncapitalize: 'uncapitalizestringtype',
+};
+
+/**
+ * JavaScript built-ins, mapped to their MDN page
+ * Read-only and `*Like` variants link to the object they describe
+ */
+const BUILTIN_PAGES: Record<string, string> = {
+  AggregateError: 'AggregateError',
+  Array: 'Array',
+  ArrayBuffer: 'ArrayBuffer',
+  ArrayLike: 'Array',
+  AsyncGenerator: 'AsyncGenerator',
+  AsyncIterator: 'AsyncIterator',
+  BigInt: 'BigInt',
+  BigInt64Array: 'BigInt64Array',
+  BigUint64Array: 'BigUint64Array',
+  Boolean: 'Boolean',
+  DataView: 'DataView',
+  Date: 'Date',
+  Error: 'Error',
+  EvalError: 'EvalError',
+  Float32Array: 'Float32Array',
+  Float64Array: 'Float64Array',
+  Function: 'Function',
+  Generator: 'Generator',
+  Int8Array: 'Int8Array',
+  Int16Array: 'Int16Array',
+  Int32Array: 'Int32Array',
+  Iterator: 'Iterator',
+  JSON: 'JSON',
+  Map: 'Map',
+  Math: 'Math',
+  Number: 'Number',
+  Object: 'Object',
+  Promise: 'Promise',
+  PromiseLike: 'Promise',
+  Proxy: 'Proxy',
+  RangeError: 'RangeError',
+  ReadonlyArray: 'Array',
+  ReadonlyMap: 'Map',
+  ReadonlySet: 'Set',
+  ReferenceError: 'ReferenceError',
+  RegExp: 'RegExp',
+  Set: 'Set',
+  SharedArrayBuffer: 'SharedArrayBuffer',
+  String: 'String',
+  Symbol: 'Symbol',
+  SyntaxError: 'SyntaxError',
+  TypeError: 'TypeError',
+  Uint8Array: 'Uint8Array',
+  Uint8ClampedArray: 'Uint8ClampedArray',
+  Uint16Array: 'Uint16Array',
+  Uint32Array: 'Uint32Array',
+  URIError: 'URIError',
+  WeakMap: 'WeakMap',
+  WeakRef: 'WeakRef',
+  WeakSet: 'WeakSet',
+};
+
+/**
+ * Iteration protocol types, which share one MDN page
+ */
+const ITERATION_PROTOCOL_TYPES = [
+  'AsyncIterable',
+  'AsyncIterableIterator',
+  'Iterable',
+  'IterableIterator',
+];
+
+/**
+ * DOM lib declarations that are option bags or helper types rather than Web APIs,
+ * and so have no MDN page of their own
+ */
+const WEB_API_HELPER_PATTERN = /(Init|Options|EventMap|Callback)$/;
+
+/**
+ * Web APIs that @types/node also declares as globals, for projects compiled without the DOM lib
+ */
+const WEB_API_GLOBALS = new Set([
+  'AbortController',
+  'AbortSignal',
+  'Blob',
+  'BroadcastChannel',
+  'CompressionStream',
+  'DecompressionStream',
+  'DOMException',
+  'Event',
+  'EventTarget',
+  'File',
+  'FormData',
+  'Headers',
+  'MessageChannel',
+  'MessageEvent',
+  'MessagePort',
+  'Performance',
+  'ReadableStream',
+  'ReadableStreamDefaultReader',
+  'Request',
+  'Response',
+  'TextDecoder',
+  'TextDecoderStream',
+  'TextEncoder',
+  'TextEncoderStream',
+  'TransformStream',
+  'URL',
+  'URLSearchParams',
+  'WebSocket',
+  'WritableStream',
+  'WritableStreamDefaultWriter',
+]);
+
+/**
+ * Node.js globals, mapped to their page (and anchor) in the Node.js API docs
+ */
+const NODE_GLOBAL_PAGES: Record<string, string> = {
+  Buffer: 'buffer.html#class-buffer',
+  BufferEncoding: 'buffer.html#buffers-and-character-encodings',
+  'NodeJS.Process': 'process.html#process',
+  'NodeJS.ProcessEnv': 'process.html#processenv',
+  'NodeJS.ReadableStream': 'stream.html#readable-streams',
+  'NodeJS.Timeout': 'timers.html#class-timeout',
+  'NodeJS.Immediate': 'timers.html#class-immediate',
+  'NodeJS.WritableStream': 'stream.html#writable-streams',
+};
+
+/**
+ * Resolve a JavaScript built-in or TypeScript utility type by name
+ */
+function resolveLanguageType(name: string): string | undefined {
+  if (UTILITY_TYPE_ANCHORS[name]) {
+    return `${UTILITY_TYPES_URL}#${UTILITY_TYPE_ANCHORS[name]}`;
+  }
+
+  if (BUILTIN_PAGES[name]) {
+    return `${MDN_BUILTINS_URL}/${BUILTIN_PAGES[name]}`;
+  }
+
+  if (ITERATION_PROTOCOL_TYPES.includes(name)) {
+    return 'https://developer.mozilla.org/en-US/docs/Web/JavaScript/Reference/Iteration_protocols';
+  }
+
+  return undefined;
+}
+
+/**
+ * Resolve a Node.js global, or a Web API global declared by @types/node
+ */
+function resolveNodeType(name: string): string | undefined {
+  if (NODE_GLOBAL_PAGES[name]) {
+    return `${NODE_API_URL}/${NODE_GLOBAL_PAGES[name]}`;
+  }
+
+  // Members like `AbortSignal.abort` have no page of their own; link the interface
+  const [typeName] = name.split('.');
+  return WEB_API_GLOBALS.has(typeName) ? `${MDN_WEB_API_URL}/${typeName}` : undefined;
+}
+
+/**
+ * Resolve a global type written by name, e.g. the `Error` in `@throws {Error}`
+ * Only names with one unambiguous meaning are linked: JavaScript built-ins, TypeScript utility
+ * types, and well-known Web API and Node.js globals
+ */
+export function resolveGlobalTypeName(name: string): string | undefined {
+  return resolveLanguageType(name) || resolveNodeType(name);
+}
+
+/**
+ * Package names mapped to the documentation site their types link to
+ * A `{name}` placeholder is replaced by the type's qualified name; otherwise the name
+ * is appended to the URL as a path segment
+ */
+export type PackageLinkMappings = Record<string, string>;
+
+/**
+ * Links types declared outside the documented project to their upstream documentation
+ * TypeScript lib types link to MDN or the TypeScript handbook, Node.js globals from @types/node
+ * to the Node.js or MDN docs, and packages registered with `mintlifyExternalPackageLinks` link
+ * to their own documentation sites.
+ * Registered with TypeDoc as an unknown symbol resolver, after the resolver for
+ * `externalSymbolLinkMappings`, so explicit mappings always win.
+ */
+export class ExternalLinkResolver {
+  private packageLinks: PackageLinkMappings = {};
+
+  /**
+   * Set the package-to-URL mappings, read from the plugin options once they are parsed
+   */
+  setPackageLinks(packageLinks: PackageLinkMappings): void {
+    this.packageLinks = packageLinks;
+  }
+
+  /**
+   * Resolve a declaration reference to an external URL
+   * TypeDoc passes the symbol the reference points to when TypeScript resolved it, which
+   * identifies the declaring package and file more reliably than the reference text.
+   */
+  resolve(ref: DeclarationReference, symbolId?: ReflectionSymbolId): string | undefined {
+    const declaration = symbolId ? symbolId.toDeclarationReference() : ref;
+    if (declaration.resolutionStart !== 'global' || !declaration.symbolReference?.path) {
+      return undefined;
+    }
+
+    // Globals declared inside a module's `declare global` block are qualified with `__global`
+    const name = declaration.symbolReference.path
+      .map((part) => part.path)
+      .filter((part, index) => index > 0 || part !== '__global')
+      .join('.');
+    if (!name || !declaration.moduleSource) {
+      return undefined;
+    }
+
+    if (declaration.moduleSource === 'typescript') {
+      return this.resolveLibType(name, symbolId?.fileName);
+    }
+
+    // Node.js globals, and Web APIs Node.js declares when the DOM lib isn't loaded
+    if (declaration.moduleSource === '@types/node') {
+      return resolveNodeType(name);
+    }
+
+    const baseUrl = this.packageLinks[declaration.moduleSource];
+    if (!baseUrl) {
+      return undefined;
+    }
+    return baseUrl.includes('{name}')
+      ? baseUrl.replace(/\{name\}/g, name)
+      : `${baseUrl.replace(/\/$/, '')}/${name}`;
+  }
+
+  /**
+   * Resolve a type declared in TypeScript's lib files
+   * Utility types link to the handbook, JavaScript built-ins to their MDN reference page and
+   * DOM types to the MDN Web API reference
+   */
+  private resolveLibType(name: string, fileName?: string): string | undefined {
+    const languageUrl = resolveLanguageType(name);
+    if (languageUrl) {
+      return languageUrl;
+    }
+
+    // Members like `Console.log` have no page of their own; link the interface
+    const [typeName] = name.split('.');
+    if (fileName && /lib\.(dom|webworker)[\w.]*\.d\.ts$/.test(fileName)) {
+      return WEB_API_HELPER_PATTERN.test(typeName) ? undefined : `${MDN_WEB_API_URL}/${typeName}`;
+    }
+
+    return undefined;
+  }
+}
@@ -1,5 +1,17 @@
-import { Application, ParameterType } from 'typedoc';
+import { relative, resolve } from 'path';
+import { Application, Converter, ParameterType } from 'typedoc';
+import type { Context, RendererEvent, SignatureReflection, TypeScript as ts } from 'typedoc';
 import { MintlifyTheme } from './theme.js';
+import { MintlifyNavigation } from './navigation.js';
+import { ExternalLinkResolver } from './external-links.js';
+import type { PackageLinkMappings } from './external-links.js';
+import { MintlifyLlmsTxt } from './llms.js';
+import { MANIFEST_FILE_NAME, MintlifyManifest } from './manifest.js';
+import { MintlifyValidator } from './validation.js';
+import type { ValidationMode } from './validation.js';
+import type { MintlifyConfigFormat } from './navigation.js';
+import { getCategoryOrder, recordThrownTypes } from './utils.js';
+import type { GroupBy } from './utils.js';
 
 /**
  * TypeDoc plugin to generate Mintlify-compatible markdown documentation
@@ -22,11 +34,128 @@ export function load(app: Application): void {
 
   app.options.addDeclaration({
     name: 'generateMintlifyNav',
-    help: 'Generate mint.json navigation file',
+    help: 'Generate mint.json (or docs.json) navigation file',
     type: ParameterType.Boolean,
     defaultValue: true,
   });
 
+  app.options.addDeclaration({
+    name: 'mintlifyConfigFormat',
+    help: 'Mintlify configuration file to generate: "mint.json" (legacy) or "docs.json"',
+    type: ParameterType.Map,
+    map: {
+      'mint.json': 'mint.json',
+      'docs.json': 'docs.json',
+    },
+    defaultValue: 'mint.json',
+  });
+
+  app.options.addDeclaration({
+    name: 'mintlifyNavMerge',
+    help: 'Merge the generated API Reference group into an existing configuration file; without it, an existing file is left unchanged',
+    type: ParameterType.Boolean,
+    defaultValue: false,
+  });
+
+  app.options.addDeclaration({
+    name: 'mintlifyNavGroup',
+    help: 'Name of the navigation group that holds the generated API Reference pages',
+    type: ParameterType.String,
+    defaultValue: 'API Reference',
+  });
+
+  app.options.addDeclaration({
+    name: 'mintlifyGroupBy',
+    help: 'Group the sidebar and index page by reflection "kind", @category/@group "category", or "module"',
+    type: ParameterType.Map,
+    map: {
+      kind: 'kind',
+      category: 'category',
+      module: 'module',
+    },
+    defaultValue: 'kind',
+  });
+
+  app.options.addDeclaration({
+    name: 'mintlifyNestKindGroups',
+    help: 'Split each category or module group into per-kind sub-groups',
+    type: ParameterType.Boolean,
+    defaultValue: false,
+  });
+
+  app.options.addDeclaration({
+    name: 'mintlifyIncludeInherited',
+    help: 'Include inherited members on class and interface pages, marked with where they come from',
+    type: ParameterType.Boolean,
+    defaultValue: true,
+  });
+
+  app.options.addDeclaration({
+    name: 'mintlifyExpandDepth',
+    help: 'How many levels of nested object properties to expand into child ParamField/ResponseField entries',
+    type: ParameterType.Number,
+    defaultValue: 2,
+  });
+
+  app.options.addDeclaration({
+    name: 'mintlifyExpandReferences',
+    help: 'Also expand the properties of referenced interfaces and object type aliases',
+    type: ParameterType.Boolean,
+    defaultValue: false,
+  });
+
+  app.options.addDeclaration({
+    name: 'mintlifySourceLinks',
+    help: 'Link each page and member to its source code (uses gitRevision/sourceLinkTemplate)',
+    type: ParameterType.Boolean,
+    defaultValue: false,
+  });
+
+  app.options.addDeclaration({
+    name: 'mintlifyExternalPackageLinks',
+    help: 'Map package names to the documentation URL their types link to, e.g. {"@acme/client": "https://docs.acme.dev/api/{name}"}',
+    type: ParameterType.Mixed,
+    defaultValue: {},
+    validate(value: unknown) {
+      if (
+        typeof value !== 'object' ||
+        value === null ||
+        Array.isArray(value) ||
+        Object.values(value).some((url) => typeof url !== 'string')
+      ) {
+        throw new Error(
+          'mintlifyExternalPackageLinks must be an object mapping package names to URLs'
+        );
+      }
+    },
+  });
+
+  app.options.addDeclaration({
+    name: 'mintlifyLlmsTxt',
+    help: 'Write llms.txt (a link index of the API reference) and llms-full.txt (every page as plain markdown)',
+    type: ParameterType.Boolean,
+    defaultValue: false,
+  });
+
+  app.options.addDeclaration({
+    name: 'mintlifyApiManifest',
+    help: `Write ${MANIFEST_FILE_NAME} to mintlifyOutput, listing every generated page with its metadata and signatures`,
+    type: ParameterType.Boolean,
+    defaultValue: false,
+  });
+
+  app.options.addDeclaration({
+    name: 'mintlifyValidation',
+    help: 'Check generated pages for invalid MDX, broken internal links and unknown components: "off", "warn", or "error" to fail the build',
+    type: ParameterType.Map,
+    map: {
+      off: 'off',
+      warn: 'warn',
+      error: 'error',
+    },
+    defaultValue: 'warn',
+  });
+
   // Register the Mintlify theme
   // @ts-expect-error - Type compatibility issue between typedoc and typedoc-plugin-markdown themes
   app.renderer.defineTheme('mintlify', MintlifyTheme);
@@ -34,6 +163,27 @@ export function load(app: Application): void {
   // Log plugin initialization
   app.logger.info('[typedoc-mintlify] Plugin loaded');
 
+  // TypeDoc drops the `{Type}` of `@throws {Type} description`; record it so pages can
+  // list and link the error classes each call raises
+  app.converter.on(
+    Converter.EVENT_CREATE_SIGNATURE,
+    (_context: Context, signature: SignatureReflection, declaration?: ts.Declaration) => {
+      recordThrownTypes(signature, declaration);
+    }
+  );
+
+  // Link lib types and types from mapped packages to their upstream docs. TypeDoc stores the
+  // result on each ReferenceType's `externalUrl`, after trying `externalSymbolLinkMappings`
+  const externalLinks = new ExternalLinkResolver();
+  app.converter.on(Converter.EVENT_BEGIN, () => {
+    externalLinks.setPackageLinks(
+      app.options.getValue('mintlifyExternalPackageLinks') as PackageLinkMappings
+    );
+  });
+  app.converter.addUnknownSymbolResolver((ref, _reflection, _part, symbolId) =>
+    externalLinks.resolve(ref, symbolId)
+  );
+
   // We'll enhance pages via the theme's render method
   // The markdown plugin should generate individual pages automatically
 
@@ -42,10 +192,109 @@ export function load(app: Application): void {
     app.logger.info('[typedoc-mintlify] Beginning Mintlify documentation generation');
   });
 
-  // Listen to renderer end event to generate mint.json
-  app.renderer.on('endRender', () => {
+  // Listen to renderer end event to generate mint.json / docs.json
+  app.renderer.on('endRender', (event: RendererEvent) => {
     if (app.options.getValue('generateMintlifyNav')) {
-      app.logger.info('[typedoc-mintlify] Generating mint.json navigation file');
+      const format = app.options.getValue('mintlifyConfigFormat') as MintlifyConfigFormat;
+      app.logger.info(`[typedoc-mintlify] Generating ${format} navigation file`);
+
+      // Build navigation from the same URL list the theme rendered so the sidebar
+      // always matches the generated pages
+      const outputDir = resolve(app.options.getValue('mintlifyOutput') as string);
+      const navigation = new MintlifyNavigation(event.project, outputDir, event.urls || [], {
+        merge: app.options.getValue('mintlifyNavMerge') as boolean,
+        groupName: app.options.getValue('mintlifyNavGroup') as string,
+        format,
+        groupBy: app.options.getValue('mintlifyGroupBy') as GroupBy,
+        nestKindGroups: app.options.getValue('mintlifyNestKindGroups') as boolean,
+        categoryOrder: getCategoryOrder(app.options),
+      });
+
+      try {
+        const filePath = navigation.write();
+        if (filePath) {
+          app.logger.info(`[typedoc-mintlify] Wrote navigation to ${filePath}`);
+        } else {
+          app.logger.warn(
+            `[typedoc-mintlify] ${navigation.getFilePath()} already exists and was left unchanged; set mintlifyNavMerge to update its ${app.options.getValue('mintlifyNavGroup')} group`
+          );
+        }
+      } catch (error) {
+        app.logger.error(
+          `[typedoc-mintlify] Could not write ${format}: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+
+    if (app.options.getValue('mintlifyLlmsTxt')) {
+      const outputDir = resolve(app.options.getValue('mintlifyOutput') as string);
+      // Grouped like the sidebar, so use the same navigation options
+      const llmsTxt = new MintlifyLlmsTxt(
+        event.project,
+        outputDir,
+        event.outputDirectory,
+        event.urls || [],
+        {
+          groupName: app.options.getValue('mintlifyNavGroup') as string,
+          groupBy: app.options.getValue('mintlifyGroupBy') as GroupBy,
+          nestKindGroups: app.options.getValue('mintlifyNestKindGroups') as boolean,
+          categoryOrder: getCategoryOrder(app.options),
+        }
+      );
+
+      try {
+        const filePaths = llmsTxt.write();
+        app.logger.info(`[typedoc-mintlify] Wrote ${filePaths.join(' and ')}`);
+      } catch (error) {
+        app.logger.error(
+          `[typedoc-mintlify] Could not write llms.txt: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+
+    if (app.options.getValue('mintlifyApiManifest')) {
+      const outputDir = resolve(app.options.getValue('mintlifyOutput') as string);
+      const manifest = new MintlifyManifest(
+        event.project,
+        outputDir,
+        event.outputDirectory,
+        event.urls || [],
+        app.options.getValue('defaultCategory')
+      );
+
+      try {
+        const filePath = manifest.write();
+        app.logger.info(`[typedoc-mintlify] Wrote API manifest to ${filePath}`);
+      } catch (error) {
+        app.logger.error(
+          `[typedoc-mintlify] Could not write ${MANIFEST_FILE_NAME}: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+
+    const validation = app.options.getValue('mintlifyValidation') as ValidationMode;
+    if (validation !== 'off') {
+      // Pages are written before endRender fires, so every link target is on disk
+      const validator = new MintlifyValidator(event.outputDirectory, event.urls || []);
+      const diagnostics = validator.validate();
+      for (const diagnostic of diagnostics) {
+        const location = [
+          relative(process.cwd(), diagnostic.file),
+          diagnostic.line,
+          diagnostic.column,
+        ]
+          .filter((part) => part !== undefined)
+          .join(':');
+        const message = `[typedoc-mintlify] ${location} - ${diagnostic.message}`;
+        if (validation === 'error') {
+          app.logger.error(message);
+        } else {
+          app.logger.warn(message);
+        }
+      }
+      app.logger.info(
+        `[typedoc-mintlify] Validated ${event.urls?.length || 0} pages, found ${diagnostics.length} problem${diagnostics.length === 1 ? '' : 's'}`
+      );
     }
   });
 }
@@ -0,0 +1,194 @@
+import type { DeclarationReflection, Reflection, ReferenceType } from 'typedoc';
+import { getMemberAnchor } from './utils.js';
+
+/**
+ * Signature kinds, which are documented with the declaration that owns them
+ */
+const SIGNATURE_KINDS = [
+  4096, // Call Signature
+  8192, // Index Signature
+  16384, // Constructor Signature
+  524288, // Get Signature
+  1048576, // Set Signature
+];
+
+/**
+ * Convert a rendered page URL to a Mintlify page path
+ * Strips the file extension and ensures the api/ prefix used by the theme
+ */
+export function toPagePath(url: string): string {
+  const cleanUrl = url.replace(/^\//, '').replace(/\.mdx?$/, '');
+  return cleanUrl.startsWith('api/') ? cleanUrl : `api/${cleanUrl}`;
+}
+
+/**
+ * Resolves reflections to the Mintlify URLs of the pages that document them
+ * Pages are keyed by reflection id, so same-named symbols in different modules never
+ * collide and types that merely share a name with a documented symbol are never linked
+ */
+export class LinkResolver {
+  private pages: Map<number, { reflection: Reflection; url: string }> = new Map();
+  private anchors: Map<number, string> = new Map();
+  // Every page path mapped to the reflection rendered there; the project may own several pages
+  private pageOwners: Map<string, Reflection> = new Map();
+  private includeInherited = true;
+
+  /**
+   * Set whether inherited members are rendered on the pages of the classes inheriting them
+   */
+  setIncludeInherited(includeInherited: boolean): void {
+    this.includeInherited = includeInherited;
+  }
+
+  /**
+   * Forget every registered page and anchor
+   */
+  clear(): void {
+    this.pages.clear();
+    this.anchors.clear();
+    this.pageOwners.clear();
+  }
+
+  /**
+   * Register the page a reflection is rendered to
+   */
+  register(reflection: Reflection, url: string): void {
+    const pageUrl = `/${toPagePath(url)}`;
+    if (!this.pages.has(reflection.id)) {
+      this.pages.set(reflection.id, { reflection, url: pageUrl });
+    }
+    this.pageOwners.set(pageUrl, reflection);
+  }
+
+  /**
+   * Register the anchor a member is rendered at, e.g. `classes/UserService.mdx#getuser`
+   */
+  registerAnchor(reflection: Reflection, url: string): void {
+    const [page, anchor] = url.split('#');
+    if (anchor) {
+      this.anchors.set(reflection.id, `/${toPagePath(page)}#${anchor}`);
+    }
+  }
+
+  /**
+   * Get the absolute URL of a reflection's own page, if it has one
+   */
+  getPageUrl(reflection: Reflection | undefined): string | undefined {
+    return reflection ? this.pages.get(reflection.id)?.url : undefined;
+  }
+
+  /**
+   * Resolve a reflection to its absolute URL
+   * Reflections without their own page link to an anchor on the nearest ancestor page
+   */
+  resolve(reflection: Reflection | undefined): string | undefined {
+    // Type parameters are documented inline on their owner's page, without an anchor
+    if (!reflection || reflection.kind === 131072) {
+      return undefined;
+    }
+
+    // Parameters are documented with their signature, and signatures with the declaration
+    // that owns them
+    let target: Reflection = reflection;
+    if (target.kind === 32768 && target.parent) {
+      // Parameter
+      target = target.parent;
+    }
+    if (SIGNATURE_KINDS.includes(target.kind) && target.parent) {
+      target = target.parent;
+    }
+
+    // Hidden inherited members link to where the class that declares them documents them
+    while (!this.includeInherited && (target as DeclarationReflection).inheritedFrom) {
+      const source = (target as DeclarationReflection).inheritedFrom!.reflection;
+      if (!source) {
+        return undefined;
+      }
+      target = SIGNATURE_KINDS.includes(source.kind) && source.parent ? source.parent : source;
+    }
+
+    const url = this.getPageUrl(target);
+    if (url) {
+      return url;
+    }
+
+    for (let parent = target.parent; parent; parent = parent.parent) {
+      const parentUrl = this.getPageUrl(parent);
+      if (parentUrl) {
+        // Registered anchors only apply when they point into a page documenting the parent
+        const anchorUrl = this.anchors.get(target.id);
+        if (anchorUrl && this.pageOwners.get(anchorUrl.split('#')[0]) === parent) {
+          return anchorUrl;
+        }
+        return `${parentUrl}#${getMemberAnchor(target)}`;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Resolve a type reference through the reflection it points to
+   * References to symbols outside the documentation (e.g. the global `Error`) link to the
+   * external URL TypeDoc resolved for them, never to a documented symbol sharing their name
+   */
+  resolveReference(type: ReferenceType): string | undefined {
+    return type.reflection ? this.resolve(type.reflection) : type.externalUrl;
+  }
+
+  /**
+   * Resolve a symbol written by name, e.g. `ApiError` or `UserService.getUser` in comment text
+   * Fully qualified names always resolve; short names only when a single page matches them
+   */
+  resolveName(name: string): string | undefined {
+    const matches = this.findByName(name);
+    return matches.length === 1 ? this.resolve(matches[0]) : undefined;
+  }
+
+  /**
+   * Names that identify exactly one page, mapped to that page's URL
+   * Used to link symbol names in free text, where no reflection is available
+   */
+  getUniqueNames(): Map<string, string> {
+    const counts = new Map<string, number>();
+    for (const { reflection } of this.pages.values()) {
+      counts.set(reflection.name, (counts.get(reflection.name) || 0) + 1);
+    }
+
+    const names = new Map<string, string>();
+    for (const { reflection, url } of this.pages.values()) {
+      if (reflection.kind !== 1 && counts.get(reflection.name) === 1) {
+        // Skip the project page, which shares the package name
+        names.set(reflection.name, url);
+      }
+    }
+    return names;
+  }
+
+  /**
+   * Find page reflections whose fully qualified or short name matches
+   */
+  private findByName(name: string): Reflection[] {
+    const reflections = [...this.pages.values()].map((page) => page.reflection);
+    const qualified = reflections.filter((reflection) => reflection.getFullName() === name);
+    if (qualified.length > 0) {
+      return qualified;
+    }
+
+    // Member names like `UserService.getUser` resolve through their owner's page
+    const [ownerName, ...memberPath] = name.split('.');
+    if (memberPath.length > 0) {
+      const owners = reflections.filter((reflection) => reflection.name === ownerName);
+      return owners
+        .map((owner) =>
+          memberPath.reduce<Reflection | undefined>(
+            (current, part) => current?.getChildByName(part),
+            owner
+          )
+        )
+        .filter((member): member is Reflection => Boolean(member));
+    }
+
+    return reflections.filter((reflection) => reflection.name === name);
+  }
+}
@@ -0,0 +1,430 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { createProcessor } from '@mdx-js/mdx';
+import type { DeclarationReflection, ProjectReflection, Reflection } from 'typedoc';
+import { toPagePath } from './link-resolver.js';
+import { MintlifyNavigation } from './navigation.js';
+import type { NavigationGroup, NavigationOptions } from './navigation.js';
+import { extractDescription, parseFrontmatter } from './utils.js';
+
+/**
+ * Callout components, which become blockquotes in plain markdown
+ */
+const CALLOUTS = ['Note', 'Warning', 'Info', 'Tip', 'Check', 'Danger'];
+
+/**
+ * Attributes ParamField uses to name a parameter, by where it is sent
+ */
+const FIELD_NAME_ATTRIBUTES = ['path', 'query', 'header', 'body', 'name'];
+
+/**
+ * A generated page, read back from disk as plain markdown
+ */
+interface PlainPage {
+  title: string;
+  description: string;
+  body: string;
+}
+
+/**
+ * Generates llms.txt and llms-full.txt for the API reference
+ * llms.txt indexes every page in sidebar order with a one-line description; llms-full.txt
+ * holds the content of every page as plain markdown, without Mintlify components.
+ * See: https://llmstxt.org
+ */
+export class MintlifyLlmsTxt {
+  private project: ProjectReflection;
+  private outputDir: string;
+  private pagesDir: string;
+  private urls: Array<{ url: string; model: Reflection }>;
+  private navigation: MintlifyNavigation;
+
+  constructor(
+    project: ProjectReflection,
+    outputDir: string,
+    pagesDir: string,
+    urls: Array<{ url: string; model: Reflection }> = [],
+    options: NavigationOptions = {}
+  ) {
+    this.project = project;
+    this.outputDir = outputDir;
+    this.pagesDir = pagesDir;
+    this.urls = urls;
+    this.navigation = new MintlifyNavigation(project, outputDir, urls, options);
+  }
+
+  /**
+   * Generate llms.txt: a link index grouped like the sidebar
+   */
+  generateIndex(): string {
+    const lines = [`# ${this.project.name || 'Documentation'}`, ''];
+
+    // The project comment comes from a `@packageDocumentation` block
+    const summary = this.toOneLine(
+      (this.project.comment?.summary || []).map((part) => part.text).join('')
+    );
+    if (summary) {
+      lines.push(`> ${summary}`, '');
+    }
+
+    const visitGroup = (group: NavigationGroup, depth: number) => {
+      lines.push(`${'#'.repeat(Math.min(depth, 6))} ${group.group}`, '');
+
+      const entries = group.pages.filter((page): page is string => typeof page === 'string');
+      for (const pagePath of entries) {
+        const page = this.readPage(pagePath);
+        if (!page) {
+          continue;
+        }
+        const reflection = this.getReflection(pagePath);
+        const description = this.toOneLine(
+          reflection && reflection.kind !== 1
+            ? extractDescription(reflection as DeclarationReflection)
+            : page.description
+        );
+        lines.push(`- [${page.title}](/${pagePath})${description ? `: ${description}` : ''}`);
+      }
+      if (entries.length > 0) {
+        lines.push('');
+      }
+
+      for (const page of group.pages) {
+        if (typeof page !== 'string') {
+          visitGroup(page, depth + 1);
+        }
+      }
+    };
+    visitGroup(this.navigation.buildNavigation(), 2);
+
+    return `${lines.join('\n').trim()}\n`;
+  }
+
+  /**
+   * Generate llms-full.txt: every page in sidebar order, as plain markdown
+   */
+  generateFull(): string {
+    const sections: string[] = [];
+
+    const visitGroup = (group: NavigationGroup) => {
+      for (const page of group.pages) {
+        if (typeof page !== 'string') {
+          visitGroup(page);
+          continue;
+        }
+        const content = this.readPage(page);
+        if (content) {
+          sections.push(`# ${content.title}\n\nURL: /${page}\n\n${content.body}`);
+        }
+      }
+    };
+    visitGroup(this.navigation.buildNavigation());
+
+    return `${sections.join('\n\n---\n\n').trim()}\n`;
+  }
+
+  /**
+   * Write llms.txt and llms-full.txt next to the navigation file
+   */
+  write(): string[] {
+    mkdirSync(this.outputDir, { recursive: true });
+
+    const indexPath = join(this.outputDir, 'llms.txt');
+    writeFileSync(indexPath, this.generateIndex(), 'utf-8');
+
+    const fullPath = join(this.outputDir, 'llms-full.txt');
+    writeFileSync(fullPath, this.generateFull(), 'utf-8');
+
+    return [indexPath, fullPath];
+  }
+
+  /**
+   * Find the reflection rendered to a page
+   */
+  private getReflection(pagePath: string): Reflection | undefined {
+    return this.urls.find((mapping) => toPagePath(mapping.url) === pagePath)?.model;
+  }
+
+  /**
+   * Read a generated page back from disk, taking its title and description from the frontmatter
+   */
+  private readPage(pagePath: string): PlainPage | undefined {
+    const mapping = this.urls.find((url) => toPagePath(url.url) === pagePath);
+    const file = mapping ? join(this.pagesDir, mapping.url) : undefined;
+    if (!file || !existsSync(file)) {
+      return undefined;
+    }
+
+    const { fields, body } = parseFrontmatter(readFileSync(file, 'utf-8'));
+    return {
+      title: fields.title || mapping?.model.name || pagePath,
+      description: fields.description || '',
+      body: toPlainMarkdown(body),
+    };
+  }
+
+  /**
+   * Reduce a description to its first paragraph, on one line
+   */
+  private toOneLine(text: string): string {
+    return text
+      .split(/\n\s*\n/)[0]
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+}
+
+/**
+ * The subset of mdast/MDX syntax tree nodes a page is converted from
+ */
+interface MdxNode {
+  type: string;
+  name?: string | null;
+  value?: string;
+  url?: string;
+  alt?: string | null;
+  lang?: string | null;
+  meta?: string | null;
+  depth?: number;
+  ordered?: boolean | null;
+  start?: number | null;
+  spread?: boolean | null;
+  attributes?: Array<{ type: string; name?: string; value?: string | { value: string } | null }>;
+  children?: MdxNode[];
+}
+
+/**
+ * Convert a generated page to plain markdown
+ * The page is parsed as MDX and written back out with Mintlify components replaced by their text
+ * equivalents: fields become bold names with their type, callouts become blockquotes, cards
+ * become links and titled containers become bold titles. Text is written unescaped.
+ */
+function toPlainMarkdown(content: string): string {
+  let tree: MdxNode;
+  try {
+    tree = createProcessor().parse(content) as unknown as MdxNode;
+  } catch {
+    // The validator reports pages that are not valid MDX; keep their content as written
+    return content.trim();
+  }
+
+  return renderBlocks(tree.children || []).trim();
+}
+
+/**
+ * Render flow content, separating blocks with blank lines
+ */
+function renderBlocks(nodes: MdxNode[], separator = '\n\n'): string {
+  return nodes
+    .map(renderBlock)
+    .filter((block) => block.trim())
+    .join(separator);
+}
+
+/**
+ * Render one flow node
+ */
+function renderBlock(node: MdxNode): string {
+  const children = node.children || [];
+
+  switch (node.type) {
+    case 'paragraph': {
+      // A component written on a single line is parsed as inline content of a paragraph
+      const content = children.filter((child) => child.type !== 'text' || child.value?.trim());
+      if (content.length === 1 && content[0].type === 'mdxJsxTextElement') {
+        return renderElement(content[0], renderInline(content[0].children || []));
+      }
+      // Back links only make sense on the site
+      if (children[0]?.type === 'link' && getText(children[0]).startsWith('← Back to')) {
+        return '';
+      }
+      return renderInline(children);
+    }
+    case 'heading':
+      return `${'#'.repeat(node.depth || 1)} ${renderInline(children)}`;
+    case 'code': {
+      const fence = getFence(node.value || '', '```');
+      const info = [node.lang, node.meta].filter(Boolean).join(' ');
+      return `${fence}${info}\n${node.value || ''}\n${fence}`;
+    }
+    case 'list':
+      return isTableOfContents(node) ? '' : renderList(node);
+    case 'blockquote':
+      return quote(renderBlocks(children));
+    case 'thematicBreak':
+      // `---` separates pages in llms-full.txt
+      return '***';
+    case 'mdxJsxFlowElement':
+      return renderElement(node, renderBlocks(children, isCardGroup(node) ? '\n' : '\n\n'));
+    case 'mdxFlowExpression':
+    case 'mdxjsEsm':
+      return '';
+    default:
+      return children.length > 0 ? renderBlocks(children) : node.value || '';
+  }
+}
+
+/**
+ * Render phrasing content
+ */
+function renderInline(nodes: MdxNode[]): string {
+  return nodes
+    .map((node) => {
+      const children = node.children || [];
+      switch (node.type) {
+        case 'text':
+          return node.value || '';
+        case 'inlineCode': {
+          const fence = getFence(node.value || '', '`');
+          const padding = node.value?.startsWith('`') || node.value?.endsWith('`') ? ' ' : '';
+          return `${fence}${padding}${node.value || ''}${padding}${fence}`;
+        }
+        case 'emphasis':
+          return `*${renderInline(children)}*`;
+        case 'strong':
+          return `**${renderInline(children)}**`;
+        case 'delete':
+          return `~~${renderInline(children)}~~`;
+        case 'link':
+          return `[${renderInline(children)}](${node.url || ''})`;
+        case 'image':
+          return `![${node.alt || ''}](${node.url || ''})`;
+        case 'break':
+          return '\n';
+        case 'mdxJsxTextElement':
+          // Anchors, icons and other empty components have no text
+          return renderInline(children);
+        case 'mdxTextExpression':
+          return '';
+        default:
+          return children.length > 0 ? renderInline(children) : node.value || '';
+      }
+    })
+    .join('');
+}
+
+/**
+ * Render a list, indenting the continuation lines of each item
+ */
+function renderList(node: MdxNode): string {
+  const start = node.start ?? 1;
+  return (node.children || [])
+    .map((item, index) => {
+      const marker = node.ordered ? `${start + index}. ` : '- ';
+      const body = renderBlocks(item.children || [], item.spread ? '\n\n' : '\n');
+      return marker + body.replace(/\n(?=.)/g, `\n${' '.repeat(marker.length)}`);
+    })
+    .join(node.spread ? '\n\n' : '\n');
+}
+
+/**
+ * Render a Mintlify component, given its already rendered content
+ */
+function renderElement(node: MdxNode, body: string): string {
+  const name = node.name || '';
+  const attributes = getAttributes(node);
+
+  if (CALLOUTS.includes(name)) {
+    return quote(body);
+  }
+
+  if (name === 'Card') {
+    const title = attributes.title || '';
+    const link = attributes.href ? `[${title}](${attributes.href})` : title;
+    const description = body.replace(/\s+/g, ' ').trim();
+    return `- ${link}${description ? `: ${description}` : ''}`;
+  }
+
+  const heading = formatComponentTitle(name, attributes);
+  return [heading, body].filter((text) => text.trim()).join('\n\n');
+}
+
+/**
+ * Get the text that stands in for a component's opening tag, if any
+ */
+function formatComponentTitle(name: string, attributes: Record<string, string>): string {
+  if (name === 'ParamField' || name === 'ResponseField') {
+    const fieldName = FIELD_NAME_ATTRIBUTES.map((key) => attributes[key]).find(Boolean);
+    const notes: string[] = [];
+    if ('required' in attributes) {
+      notes.push('required');
+    }
+    if ('deprecated' in attributes) {
+      notes.push('deprecated');
+    }
+    if (attributes.default) {
+      notes.push(`default: \`${attributes.default}\``);
+    }
+    const type = attributes.type ? ` \`${attributes.type}\`` : '';
+    return `**${fieldName || 'value'}**${type}${notes.length > 0 ? ` (${notes.join(', ')})` : ''}`;
+  }
+
+  if (!attributes.title) {
+    return '';
+  }
+  return attributes.href
+    ? `**[${attributes.title}](${attributes.href})**`
+    : `**${attributes.title}**`;
+}
+
+/**
+ * Get the attributes of a JSX element; boolean attributes map to an empty string and
+ * expression attributes to their source
+ */
+function getAttributes(node: MdxNode): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const attribute of node.attributes || []) {
+    if (attribute.type !== 'mdxJsxAttribute' || !attribute.name) {
+      continue;
+    }
+    const value = attribute.value;
+    attributes[attribute.name] = typeof value === 'object' && value ? value.value : value || '';
+  }
+  return attributes;
+}
+
+/**
+ * A list where every item only links to a heading on the same page is a table of contents,
+ * which only makes sense on the site
+ */
+function isTableOfContents(node: MdxNode): boolean {
+  return (node.children || []).every((item) => {
+    const paragraph = item.children?.length === 1 ? item.children[0] : undefined;
+    const link = paragraph?.children?.length === 1 ? paragraph.children[0] : undefined;
+    return link?.type === 'link' && link.url?.startsWith('#');
+  });
+}
+
+/**
+ * Cards in a group are rendered as one list
+ */
+function isCardGroup(node: MdxNode): boolean {
+  return (node.children || []).every(
+    (child) => child.type === 'mdxJsxFlowElement' && child.name === 'Card'
+  );
+}
+
+/**
+ * Get the plain text of a node
+ */
+function getText(node: MdxNode): string {
+  return node.children ? node.children.map(getText).join('') : node.value || '';
+}
+
+/**
+ * Get a code fence longer than any run of the fence character in the content
+ */
+function getFence(content: string, fence: string): string {
+  const runs = content.match(new RegExp(`${fence[0]}+`, 'g')) || [];
+  const longest = Math.max(0, ...runs.map((run) => run.length));
+  return fence[0].repeat(Math.max(fence.length, longest + 1));
+}
+
+/**
+ * Quote content as a blockquote
+ */
+function quote(content: string): string {
+  return content
+    .split('\n')
+    .map((line) => (line ? `> ${line}` : '>'))
+    .join('\n');
+}
@@ -0,0 +1,198 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { join, relative, sep } from 'path';
+import type {
+  DeclarationReflection,
+  ProjectReflection,
+  Reflection,
+  SourceReference,
+} from 'typedoc';
+import { toPagePath } from './link-resolver.js';
+import {
+  extractDescription,
+  formatType,
+  getCategoryTitle,
+  getKindLabel,
+  getReflectionComment,
+  getSignatureText,
+  isReflectionDeprecated,
+  OTHER_GROUP_TITLE,
+  parseFrontmatter,
+} from './utils.js';
+
+/**
+ * File name of the manifest, written to `mintlifyOutput` next to the navigation file
+ */
+export const MANIFEST_FILE_NAME = 'mintlify-api-manifest.json';
+
+/**
+ * One generated page in the manifest
+ */
+export interface ManifestPage {
+  /** TypeDoc reflection id; stable within one build, not across builds */
+  id: number;
+  /** Fully qualified name, e.g. `Shapes.area` */
+  name: string;
+  kind: string;
+  /** Absolute Mintlify URL of the page */
+  url: string;
+  /** Generated file, relative to the manifest */
+  file: string;
+  title: string;
+  description: string;
+  /** Set for pages in a `@category` or `@group` */
+  category?: string;
+  deprecated: boolean;
+  /** Text of the `@deprecated` tag, when it has any */
+  deprecationMessage?: string;
+  /** Plain-text signature lines, one per overload */
+  signatures: string[];
+  source?: { file: string; line: number; url?: string };
+}
+
+/**
+ * The manifest written at the end of rendering
+ */
+export interface ApiManifest {
+  name: string;
+  version?: string;
+  pages: ManifestPage[];
+}
+
+/**
+ * Writes a machine-readable manifest of every generated page
+ * Lets other tooling (search indexing, changelogs, snippet generators) read the API reference
+ * without scraping the MDX. Titles and descriptions match the page frontmatter.
+ */
+export class MintlifyManifest {
+  private project: ProjectReflection;
+  private outputDir: string;
+  private pagesDir: string;
+  private urls: Array<{ url: string; model: Reflection }>;
+  private defaultCategory: string;
+
+  constructor(
+    project: ProjectReflection,
+    outputDir: string,
+    pagesDir: string,
+    urls: Array<{ url: string; model: Reflection }> = [],
+    defaultCategory: string = OTHER_GROUP_TITLE
+  ) {
+    this.project = project;
+    this.outputDir = outputDir;
+    this.pagesDir = pagesDir;
+    this.urls = urls;
+    this.defaultCategory = defaultCategory;
+  }
+
+  /**
+   * Build the manifest from the rendered URLs, in render order
+   */
+  generateManifest(): ApiManifest {
+    const pages: ManifestPage[] = [];
+    const seen = new Set<string>();
+
+    for (const mapping of this.urls) {
+      const file = join(this.pagesDir, mapping.url);
+      if (seen.has(mapping.url) || !existsSync(file)) {
+        continue;
+      }
+      seen.add(mapping.url);
+      pages.push(this.createPage(mapping.model, mapping.url, file));
+    }
+
+    return {
+      name: this.project.name,
+      version: this.project.packageVersion,
+      pages,
+    };
+  }
+
+  /**
+   * Write the manifest next to the navigation file
+   */
+  write(): string {
+    mkdirSync(this.outputDir, { recursive: true });
+    const filePath = join(this.outputDir, MANIFEST_FILE_NAME);
+    writeFileSync(filePath, `${JSON.stringify(this.generateManifest(), null, 2)}\n`, 'utf-8');
+    return filePath;
+  }
+
+  /**
+   * Describe one generated page
+   */
+  private createPage(reflection: Reflection, url: string, file: string): ManifestPage {
+    const { fields } = parseFrontmatter(readFileSync(file, 'utf-8'));
+    const decl = reflection as DeclarationReflection;
+    const comment = getReflectionComment(reflection);
+    // TypeDoc puts reflections without a `@category` in its default category once a sibling has one
+    const category = getCategoryTitle(reflection);
+    const deprecated = isReflectionDeprecated(reflection);
+    const deprecationMessage = comment
+      ?.getTag('@deprecated')
+      ?.content.map((part) => part.text)
+      .join('')
+      .trim();
+
+    return {
+      id: reflection.id,
+      name: reflection.kind === 1 ? reflection.name : reflection.getFullName(),
+      kind: getKindLabel(reflection.kind),
+      url: `/${toPagePath(url)}`,
+      file: relative(this.outputDir, file).split(sep).join('/'),
+      title: fields.title || reflection.name,
+      // Project pages have no declaration comment; their description comes from the frontmatter
+      description: (reflection.kind === 1 ? fields.description : extractDescription(decl)) || '',
+      category: category !== this.defaultCategory ? category : undefined,
+      deprecated,
+      deprecationMessage: (deprecated && deprecationMessage) || undefined,
+      signatures: this.getSignatures(decl),
+      source: this.getSource(decl.sources?.[0]),
+    };
+  }
+
+  /**
+   * Get the plain-text signatures of a page's reflection
+   * Classes list their constructors; type aliases and variables their declaration
+   */
+  private getSignatures(reflection: DeclarationReflection): string[] {
+    if (reflection.signatures) {
+      return reflection.signatures.map((sig) => getSignatureText(reflection.name, sig));
+    }
+
+    if (reflection.kind === 128) {
+      // Class
+      const constructor = reflection.children?.find((child) => child.kind === 512);
+      return (constructor?.signatures || []).map((sig) =>
+        getSignatureText(reflection.name, sig, true)
+      );
+    }
+
+    if (reflection.kind === 2097152 && reflection.type) {
+      // Type Alias
+      const typeParameters = reflection.typeParameters || [];
+      const typeParams =
+        typeParameters.length > 0
+          ? `<${typeParameters.map((param) => param.name).join(', ')}>`
+          : '';
+      return [`type ${reflection.name}${typeParams} = ${formatType(reflection.type)}`];
+    }
+
+    if (reflection.kind === 32) {
+      // Variable
+      const keyword = reflection.flags.isConst ? 'const' : 'let';
+      return [`${keyword} ${reflection.name}: ${formatType(reflection.type)}`];
+    }
+
+    return [];
+  }
+
+  /**
+   * Get where a reflection is declared; `url` is set when TypeDoc resolved source links
+   */
+  private getSource(source: SourceReference | undefined): ManifestPage['source'] {
+    if (!source) {
+      return undefined;
+    }
+    return { file: source.fileName, line: source.line, url: source.url };
+  }
+}
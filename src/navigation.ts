@@ -1,239 +1,381 @@
-import { writeFileSync } from 'fs';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
 import { join } from 'path';
-import type { ProjectReflection, DeclarationReflection } from 'typedoc';
+import type { ProjectReflection, Reflection } from 'typedoc';
+import { compareGroupTitles, getGroupTitle, getIconForKind } from './utils.js';
+import { toPagePath } from './link-resolver.js';
+import type { GroupBy } from './utils.js';
 
-interface NavigationGroup {
+/**
+ * A navigation group; `pages` may contain nested sub-groups
+ * `icon` and `expanded` are only understood by docs.json
+ */
+export interface NavigationGroup {
   group: string;
-  pages: string[];
+  icon?: string;
+  expanded?: boolean;
+  pages: Array<string | NavigationGroup>;
 }
 
+/**
+ * Legacy mint.json configuration with a flat list of navigation groups
+ */
 interface MintlifyConfig {
   name: string;
-  logo: {
-    light: string;
-    dark: string;
-  };
-  favicon: string;
-  colors: {
+  favicon?: string;
+  colors?: {
     primary: string;
-    light: string;
-    dark: string;
-  };
-  topbarLinks: Array<{
-    name: string;
-    url: string;
-  }>;
-  topbarCtaButton: {
-    name: string;
-    url: string;
+    light?: string;
+    dark?: string;
   };
   navigation: NavigationGroup[];
-  footerSocials: {
-    github: string;
+  // Hand-maintained files carry many more keys (tabs, topbarLinks, ...) that merge mode preserves
+  [key: string]: unknown;
+}
+
+/**
+ * A docs.json navigation tab holding its own groups or pages
+ */
+interface DocsTab {
+  tab: string;
+  icon?: string;
+  groups?: NavigationGroup[];
+  pages?: Array<string | NavigationGroup>;
+  [key: string]: unknown;
+}
+
+/**
+ * Mintlify docs.json (v2) configuration with nested tabs, groups and pages
+ * See: https://mintlify.com/docs/settings
+ */
+interface DocsConfig {
+  $schema?: string;
+  theme?: string;
+  name: string;
+  favicon?: string;
+  colors?: {
+    primary: string;
+    light?: string;
+    dark?: string;
+  };
+  navigation: {
+    tabs?: DocsTab[];
+    groups?: NavigationGroup[];
+    pages?: Array<string | NavigationGroup>;
+    [key: string]: unknown;
   };
+  [key: string]: unknown;
 }
 
 /**
- * Generates Mintlify's mint.json navigation file
+ * Supported Mintlify configuration file formats
+ */
+export type MintlifyConfigFormat = 'mint.json' | 'docs.json';
+
+/**
+ * Options controlling how the navigation file is produced
+ */
+export interface NavigationOptions {
+  /** Merge into an existing configuration file instead of writing a fresh one */
+  merge?: boolean;
+  /** Name of the group that holds the generated API Reference pages */
+  groupName?: string;
+  /** Configuration file format to write */
+  format?: MintlifyConfigFormat;
+  /** How pages are grouped inside the API Reference group */
+  groupBy?: GroupBy;
+  /** Split each category or module group into per-kind sub-groups */
+  nestKindGroups?: boolean;
+  /** Order of category groups, see getCategoryOrder */
+  categoryOrder?: string[];
+}
+
+/**
+ * A reflection that has its own page, paired with that page's Mintlify path
+ */
+interface NavigationEntry {
+  reflection: Reflection;
+  pagePath: string;
+}
+
+/**
+ * Navigation groups in sidebar order, keyed by reflection kind
+ */
+const KIND_GROUPS: Array<{ kind: number; group: string }> = [
+  { kind: 2, group: 'Modules' }, // Module
+  { kind: 4, group: 'Namespaces' }, // Namespace
+  { kind: 8, group: 'Enumerations' }, // Enum
+  { kind: 128, group: 'Classes' }, // Class
+  { kind: 256, group: 'Interfaces' }, // Interface
+  { kind: 64, group: 'Functions' }, // Function
+  { kind: 2097152, group: 'Types' }, // Type Alias
+  { kind: 32, group: 'Variables' }, // Variable
+];
+
+/**
+ * Theme and primary color Mintlify uses when a docs.json does not set its own
+ */
+const DEFAULT_DOCS_THEME = 'mint';
+const DEFAULT_DOCS_PRIMARY_COLOR = '#16A34A';
+
+/**
+ * Replace the navigation group named `groupName` in place, searching nested groups, tabs and
+ * any other navigation container depth-first
+ * Returns whether the group was found.
+ */
+function replaceGroup(node: unknown, groupName: string, apiGroup: NavigationGroup): boolean {
+  if (Array.isArray(node)) {
+    const index = node.findIndex(
+      (item) => typeof item === 'object' && item !== null && item.group === groupName
+    );
+    if (index !== -1) {
+      node[index] = apiGroup;
+      return true;
+    }
+    return node.some((item) => replaceGroup(item, groupName, apiGroup));
+  }
+  if (typeof node === 'object' && node !== null) {
+    return Object.values(node).some((value) => replaceGroup(value, groupName, apiGroup));
+  }
+  return false;
+}
+
+/**
+ * Generates Mintlify's mint.json or docs.json navigation file
  */
 export class MintlifyNavigation {
   private project: ProjectReflection;
   private outputDir: string;
+  private urls: Array<{ url: string; model: Reflection }>;
+  private merge: boolean;
+  private groupName: string;
+  private format: MintlifyConfigFormat;
+  private groupBy: GroupBy;
+  private nestKindGroups: boolean;
+  private categoryOrder: string[];
 
-  constructor(project: ProjectReflection, outputDir: string) {
+  constructor(
+    project: ProjectReflection,
+    outputDir: string,
+    urls: Array<{ url: string; model: Reflection }> = [],
+    options: NavigationOptions = {}
+  ) {
     this.project = project;
     this.outputDir = outputDir;
+    this.urls = urls;
+    this.merge = options.merge ?? false;
+    this.groupName = options.groupName || 'API Reference';
+    this.format = options.format || 'mint.json';
+    this.groupBy = options.groupBy || 'kind';
+    this.nestKindGroups = options.nestKindGroups ?? false;
+    this.categoryOrder = options.categoryOrder || [];
   }
 
   /**
-   * Generate mint.json configuration file
+   * Generate a minimal mint.json configuration file
+   * Only the site name and the API Reference group are written; branding and hand-written
+   * pages belong in a hand-maintained file that merge mode updates in place
    */
   generate(): MintlifyConfig {
-    const navigation: MintlifyConfig = {
+    return {
+      name: this.project.name || 'Documentation',
+      navigation: [this.buildNavigation()],
+    };
+  }
+
+  /**
+   * Generate a minimal docs.json configuration file
+   * docs.json also requires a theme and a primary color, so Mintlify's defaults are written
+   * for them; everything else is left to a hand-maintained file that merge mode updates in place
+   */
+  generateDocsConfig(): DocsConfig {
+    return {
+      $schema: 'https://mintlify.com/docs.json',
+      theme: DEFAULT_DOCS_THEME,
       name: this.project.name || 'Documentation',
-      logo: {
-        light: '/logo/light.svg',
-        dark: '/logo/dark.svg',
-      },
-      favicon: '/favicon.png',
       colors: {
-        primary: '#0D9373',
-        light: '#07C983',
-        dark: '#0D9373',
+        primary: DEFAULT_DOCS_PRIMARY_COLOR,
       },
-      topbarLinks: [
-        {
-          name: 'Documentation',
-          url: 'https://docs.example.com',
-        },
-      ],
-      topbarCtaButton: {
-        name: 'Get Started',
-        url: 'https://example.com',
-      },
-      navigation: this.buildNavigation(),
-      footerSocials: {
-        github: 'https://github.com/example/repo',
+      navigation: {
+        groups: [this.buildNavigation()],
       },
     };
+  }
 
-    return navigation;
+  /**
+   * Merge the generated API Reference group into an existing configuration
+   * Replaces the group named after `groupName` in place, wherever it is nested, or appends it
+   * if missing. Every other key and group keeps its original position.
+   */
+  mergeInto(config: MintlifyConfig): MintlifyConfig {
+    const apiGroup = this.buildNavigation();
+    const navigation = Array.isArray(config.navigation) ? config.navigation : [];
+
+    if (!replaceGroup(navigation, this.groupName, apiGroup)) {
+      navigation.push(apiGroup);
+    }
+
+    config.navigation = navigation;
+    return config;
   }
 
   /**
-   * Build the navigation structure from TypeDoc project
+   * Merge the generated API Reference group into an existing docs.json configuration
+   * The group is searched for everywhere in the navigation: tabs, groups and the pages of
+   * other groups. If it does not exist yet, it is added as a new tab (when tabs are used) or
+   * a new top-level group.
    */
-  buildNavigation(): NavigationGroup[] {
-    const nav: NavigationGroup[] = [
-      {
-        group: 'Getting Started',
-        pages: ['introduction'],
-      },
-    ];
-
-    // Add modules
-    if (this.project.children && this.project.children.length > 0) {
-      const modulePages = this.project.children
-        .filter(
-          (child): child is DeclarationReflection =>
-            'kindString' in child && child.kindString === 'Module'
-        )
-        .map((module) => this.getModulePath(module));
-
-      if (modulePages.length > 0) {
-        nav.push({
-          group: 'Modules',
-          pages: modulePages,
-        });
+  mergeIntoDocsConfig(config: DocsConfig): DocsConfig {
+    const apiGroup = this.buildNavigation();
+    const navigation = config.navigation || {};
+
+    if (replaceGroup(navigation, this.groupName, apiGroup)) {
+      config.navigation = navigation;
+      return config;
+    }
+
+    if (navigation.tabs) {
+      navigation.tabs.push({ tab: this.groupName, groups: [apiGroup] });
+    } else {
+      navigation.groups = [...(navigation.groups || []), apiGroup];
+    }
+
+    config.navigation = navigation;
+    return config;
+  }
+
+  /**
+   * Build the API Reference navigation group from the project reflections
+   * Every page path is the exact URL the theme rendered the reflection to. Project-level
+   * pages (index, globals) come first, followed by one nested group per reflection kind,
+   * `@category`/`@group` title or module depending on `groupBy`.
+   */
+  buildNavigation(): NavigationGroup {
+    const apiPages: Array<string | NavigationGroup> = [];
+    const pageByReflection = new Map<Reflection, string>();
+
+    for (const mapping of this.urls) {
+      const pagePath = toPagePath(mapping.url);
+      if (mapping.model.kind === 1) {
+        // Project
+        apiPages.push(pagePath);
+      } else if (!pageByReflection.has(mapping.model)) {
+        pageByReflection.set(mapping.model, pagePath);
       }
+    }
 
-      // Add classes
-      const classPages = this.project.children
-        .filter(
-          (child): child is DeclarationReflection =>
-            'kindString' in child && child.kindString === 'Class'
-        )
-        .map((cls) => this.getClassPath(cls));
-
-      if (classPages.length > 0) {
-        nav.push({
-          group: 'Classes',
-          pages: classPages,
-        });
+    const entries: NavigationEntry[] = [];
+
+    const visitReflection = (reflection: Reflection) => {
+      const pagePath = pageByReflection.get(reflection);
+      if (pagePath) {
+        entries.push({ reflection, pagePath });
       }
 
-      // Add interfaces
-      const interfacePages = this.project.children
-        .filter(
-          (child): child is DeclarationReflection =>
-            'kindString' in child && child.kindString === 'Interface'
-        )
-        .map((iface) => this.getInterfacePath(iface));
-
-      if (interfacePages.length > 0) {
-        nav.push({
-          group: 'Interfaces',
-          pages: interfacePages,
-        });
+      // Recurse into modules and namespaces to pick up their members
+      if (
+        (reflection.kind === 1 || reflection.kind === 2 || reflection.kind === 4) &&
+        'children' in reflection &&
+        reflection.children &&
+        Array.isArray(reflection.children)
+      ) {
+        reflection.children.forEach((child: Reflection) => visitReflection(child));
       }
+    };
+
+    visitReflection(this.project);
 
-      // Add functions
-      const functionPages = this.project.children
-        .filter(
-          (child): child is DeclarationReflection =>
-            'kindString' in child && child.kindString === 'Function'
-        )
-        .map((func) => this.getFunctionPath(func));
-
-      if (functionPages.length > 0) {
-        nav.push({
-          group: 'Functions',
-          pages: functionPages,
-        });
+    if (this.groupBy === 'kind') {
+      apiPages.push(...this.buildKindGroups(entries));
+    } else {
+      // Categories follow TypeDoc's category order; modules the order they are encountered in
+      const sections = new Map<string, NavigationEntry[]>();
+      for (const entry of entries) {
+        const title = getGroupTitle(entry.reflection, this.groupBy);
+        if (!sections.has(title)) {
+          sections.set(title, []);
+        }
+        sections.get(title)!.push(entry);
       }
+      const order = this.groupBy === 'category' ? this.categoryOrder : undefined;
+      const sortedSections = [...sections].sort(([a], [b]) => compareGroupTitles(a, b, order));
 
-      // Add type aliases
-      const typePages = this.project.children
-        .filter(
-          (child): child is DeclarationReflection =>
-            'kindString' in child && child.kindString === 'Type alias'
-        )
-        .map((type) => this.getTypePath(type));
-
-      if (typePages.length > 0) {
-        nav.push({
-          group: 'Types',
-          pages: typePages,
-        });
+      for (const [group, sectionEntries] of sortedSections) {
+        // A module or namespace page heads its own group, ahead of any kind sub-groups
+        const isHead = (entry: NavigationEntry) =>
+          this.groupBy === 'module' && (entry.reflection.kind === 2 || entry.reflection.kind === 4);
+        const pages = this.nestKindGroups
+          ? [
+              ...sectionEntries.filter(isHead).map((entry) => entry.pagePath),
+              ...this.buildKindGroups(sectionEntries.filter((entry) => !isHead(entry))),
+            ]
+          : sectionEntries.map((entry) => entry.pagePath);
+        apiPages.push(
+          this.format === 'docs.json' ? { group, expanded: false, pages } : { group, pages }
+        );
       }
     }
 
-    return nav;
-  }
-
-  /**
-   * Get the file path for a module
-   */
-  private getModulePath(module: DeclarationReflection): string {
-    const slug = this.slugify(module.name);
-    // Handle index/README files - these are typically the main entry point
-    // The actual filename depends on typedoc-plugin-markdown's entryFileName option
-    // Default is "README", but can be set to "index" in typedoc.json
-    if (slug === 'index' || slug === 'readme') {
-      // Check if we have entryFileName option (would need to be passed to constructor)
-      // For now, default to "index" as it's more common for API docs
-      // Users can override in their mint.json if needed
-      return 'api/index';
-    }
-    return `modules/${slug}`;
+    return {
+      group: this.groupName,
+      pages: apiPages,
+    };
   }
 
   /**
-   * Get the file path for a class
+   * Split navigation entries into one group per reflection kind, in sidebar order
    */
-  private getClassPath(cls: DeclarationReflection): string {
-    return `classes/${this.slugify(cls.name)}`;
-  }
+  private buildKindGroups(entries: NavigationEntry[]): NavigationGroup[] {
+    const groups: NavigationGroup[] = [];
 
-  /**
-   * Get the file path for an interface
-   */
-  private getInterfacePath(iface: DeclarationReflection): string {
-    return `interfaces/${this.slugify(iface.name)}`;
-  }
+    for (const { kind, group } of KIND_GROUPS) {
+      const pages = entries
+        .filter((entry) => entry.reflection.kind === kind)
+        .map((entry) => entry.pagePath);
+      if (pages.length === 0) {
+        continue;
+      }
+      groups.push(
+        this.format === 'docs.json'
+          ? { group, icon: getIconForKind(kind), expanded: false, pages }
+          : { group, pages }
+      );
+    }
 
-  /**
-   * Get the file path for a function
-   */
-  private getFunctionPath(func: DeclarationReflection): string {
-    return `functions/${this.slugify(func.name)}`;
+    return groups;
   }
 
   /**
-   * Get the file path for a type
+   * Get the path of the mint.json or docs.json file
    */
-  private getTypePath(type: DeclarationReflection): string {
-    return `types/${this.slugify(type.name)}`;
+  getFilePath(): string {
+    return join(this.outputDir, this.format);
   }
 
   /**
-   * Convert a name to a URL-safe slug
+   * Write the mint.json or docs.json file
+   * In merge mode an existing file is loaded and only the API Reference group is replaced.
+   * Outside merge mode an existing file is left untouched so hand-maintained navigation and
+   * branding are never lost; returns undefined when nothing was written.
    */
-  private slugify(text: string): string {
-    return text
-      .toLowerCase()
-      .replace(/[^a-z0-9]+/g, '-')
-      .replace(/^-+|-+$/g, '');
-  }
+  write(): string | undefined {
+    const filePath = this.getFilePath();
+    if (!this.merge && existsSync(filePath)) {
+      return undefined;
+    }
+    const existing =
+      this.merge && existsSync(filePath) ? JSON.parse(readFileSync(filePath, 'utf-8')) : undefined;
 
-  /**
-   * Write the mint.json file
-   */
-  write(): string {
-    const config = this.generate();
-    const filePath = join(this.outputDir, 'mint.json');
+    let config: MintlifyConfig | DocsConfig;
+    if (this.format === 'docs.json') {
+      config = existing
+        ? this.mergeIntoDocsConfig(existing as DocsConfig)
+        : this.generateDocsConfig();
+    } else {
+      config = existing ? this.mergeInto(existing as MintlifyConfig) : this.generate();
+    }
 
-    writeFileSync(filePath, JSON.stringify(config, null, 2), 'utf-8');
+    mkdirSync(this.outputDir, { recursive: true });
+    writeFileSync(filePath, `${JSON.stringify(config, null, 2)}\n`, 'utf-8');
 
     return filePath;
   }
@@ -4,19 +4,88 @@ import type {
   SignatureReflection,
   ParameterReflection,
   Comment,
+  CommentDisplayPart,
+  InlineTagDisplayPart,
+  Logger,
   Type,
+  ReferenceType,
+  TypeParameterReflection,
+  ArrayType,
+  ReflectionType,
+  SourceReference,
 } from 'typedoc';
-import { formatType, sanitizeAttribute } from './utils.js';
+import {
+  formatType,
+  getHeadingAnchor,
+  getIconForKind,
+  getMemberAnchor,
+  getReflectionComment,
+  getReleaseStage,
+  getSignatureText,
+  getSinceVersion,
+  getStatusTag,
+  getThrownTypes,
+  isDeprecated,
+  isReflectionDeprecated,
+  sanitizeAttribute,
+} from './utils.js';
+import { LinkResolver } from './link-resolver.js';
+import { resolveGlobalTypeName } from './external-links.js';
 import { MintlifyComponents } from './components.js';
 
+/**
+ * Member sections on module and namespace pages, in display order
+ */
+const MODULE_MEMBER_SECTIONS: Array<{ kind: number; title: string }> = [
+  { kind: 2, title: 'Modules' }, // Module
+  { kind: 4, title: 'Namespaces' }, // Namespace
+  { kind: 8, title: 'Enumerations' }, // Enum
+  { kind: 128, title: 'Classes' }, // Class
+  { kind: 256, title: 'Interfaces' }, // Interface
+  { kind: 2097152, title: 'Type Aliases' }, // Type Alias
+  { kind: 64, title: 'Functions' }, // Function
+  { kind: 32, title: 'Variables' }, // Variable
+];
+
+/**
+ * Inline tags that link to another reflection or URL
+ */
+const INLINE_LINK_TAGS = ['@link', '@linkcode', '@linkplain'];
+
+/**
+ * Options controlling what the reflection renderer includes on each page
+ */
+export interface RenderOptions {
+  /** Include members inherited from base classes and interfaces */
+  includeInherited: boolean;
+  /** How many levels of nested object properties to expand into child fields */
+  expandDepth: number;
+  /** Also expand properties of referenced interfaces and object type aliases */
+  expandReferences: boolean;
+  /** Link pages and members to their source code */
+  sourceLinks: boolean;
+}
+
 /**
  * Renders TypeDoc reflections directly to MDX without text transformations
  */
 export class MintlifyReflectionRenderer {
   private components: MintlifyComponents;
-  private typeToUrlMap: Map<string, string> = new Map();
+  private options: RenderOptions = {
+    includeInherited: true,
+    expandDepth: 2,
+    expandReferences: false,
+    sourceLinks: false,
+  };
+  private linkResolver: LinkResolver = new LinkResolver();
   private currentPageUrl?: string;
   private frontmatterDescription?: string;
+  private pageComment?: Comment;
+  private pageSourceUrl?: string;
+  // Set while a member without its own page is rendered inline on its module's page
+  private inline = false;
+  private logger?: Logger;
+  private reportedLinks: Set<string> = new Set();
   private indexPageUrl: string = '/api/index';
 
   constructor() {
@@ -24,10 +93,24 @@ export class MintlifyReflectionRenderer {
   }
 
   /**
-   * Set the type-to-URL mapping for generating links
+   * Set the resolver used to link reflections to their pages
+   */
+  setLinkResolver(linkResolver: LinkResolver): void {
+    this.linkResolver = linkResolver;
+  }
+
+  /**
+   * Set the logger used to report unresolved links
+   */
+  setLogger(logger: Logger): void {
+    this.logger = logger;
+  }
+
+  /**
+   * Set rendering options
    */
-  setTypeToUrlMap(map: Map<string, string>): void {
-    this.typeToUrlMap = map;
+  setOptions(options: Partial<RenderOptions>): void {
+    this.options = { ...this.options, ...options };
   }
 
   /**
@@ -41,7 +124,7 @@ export class MintlifyReflectionRenderer {
    * Helper to format types with link generation
    */
   private formatTypeWithLinks(type: Type | null | undefined): string {
-    return formatType(type, this.typeToUrlMap, this.currentPageUrl);
+    return formatType(type, this.linkResolver, this.currentPageUrl);
   }
 
   /**
@@ -53,7 +136,6 @@ export class MintlifyReflectionRenderer {
     }
 
     const decl = reflection as DeclarationReflection;
-    const kind = decl.kind;
 
     // Generate frontmatter
     const frontmatter = this.renderFrontmatter(decl);
@@ -63,12 +145,35 @@ export class MintlifyReflectionRenderer {
     const descMatch = frontmatter.match(/description: "([^"]+)"/);
     this.frontmatterDescription = descMatch ? descMatch[1] : undefined;
 
+    // Remember the page's own comment so members don't repeat its status
+    this.pageComment = this.getStatusComment(decl);
+
     // Store current page URL for relative link generation
     this.currentPageUrl = currentPageUrl;
 
     // Add back link to index or parent
     content += this.renderBackLink(decl);
 
+    // Add source link; members repeating the page's location don't link it again
+    this.pageSourceUrl = undefined;
+    content += this.renderSourceLink(decl);
+    this.pageSourceUrl = decl.sources?.[0]?.url;
+
+    // Add release status badges and deprecation notice
+    content += this.renderStatus(this.pageComment, true);
+
+    content += this.renderBody(decl);
+
+    return content;
+  }
+
+  /**
+   * Render the body of a page, below its back link, source link and status
+   */
+  private renderBody(decl: DeclarationReflection): string {
+    const kind = decl.kind;
+    let content = '';
+
     // Render based on kind
     if (kind === 128) {
       // Class
@@ -85,10 +190,17 @@ export class MintlifyReflectionRenderer {
     } else if (kind === 2097152) {
       // Type Alias
       content += this.renderTypeAlias(decl);
+    } else if (kind === 32) {
+      // Variable
+      content += this.renderVariable(decl);
+    } else if (kind === 2 || kind === 4) {
+      // Module or Namespace
+      content += this.renderModule(decl);
     } else {
       // Default: render summary and description
       content += this.renderSummary(decl);
       content += this.renderComments(decl.comment);
+      content += this.renderSeeAlsoSection(decl.comment);
     }
 
     return content;
@@ -102,19 +214,15 @@ export class MintlifyReflectionRenderer {
     let parent: Reflection | undefined = reflection.parent;
     let parentUrl: string | undefined;
 
-    // Walk up the parent chain to find a module, class, or interface
+    // Walk up the parent chain to find a module, namespace, class, or interface
     while (parent) {
-      if (parent.kind === 2) {
-        // Module - link to index
-        parentUrl = this.indexPageUrl;
+      if (parent.kind === 2 || parent.kind === 4) {
+        // Module or Namespace - link to its own page, or the index if it has none
+        parentUrl = this.linkResolver.getPageUrl(parent) || this.indexPageUrl;
         break;
       } else if (parent.kind === 128 || parent.kind === 256) {
         // Class or Interface - link to parent page
-        const parentName = (parent as DeclarationReflection).name;
-        parentUrl = this.typeToUrlMap.get(parentName);
-        if (parentUrl) {
-          parentUrl = `/${parentUrl}`;
-        }
+        parentUrl = this.linkResolver.getPageUrl(parent);
         break;
       }
       parent = parent.parent;
@@ -127,7 +235,7 @@ export class MintlifyReflectionRenderer {
 
     // Determine link text based on what we're linking to
     let linkText = '← Back to API Reference';
-    if (parent && (parent.kind === 128 || parent.kind === 256)) {
+    if (parent && (parent.kind === 128 || parent.kind === 256 || parentUrl !== this.indexPageUrl)) {
       const parentName = (parent as DeclarationReflection).name;
       linkText = `← Back to ${parentName}`;
     }
@@ -140,7 +248,8 @@ export class MintlifyReflectionRenderer {
    * Generate YAML frontmatter from reflection
    */
   renderFrontmatter(reflection: DeclarationReflection): string {
-    const title = reflection.name || 'Documentation';
+    const name = reflection.name || 'Documentation';
+    const title = `${name}${this.formatTypeParameterNames(reflection.typeParameters)}`;
     let description = '';
 
     // Extract description from comment
@@ -156,15 +265,15 @@ export class MintlifyReflectionRenderer {
     if (!description) {
       const kindString = this.getKindString(reflection.kind);
       if (kindString === 'Class') {
-        description = `Use the ${title} class to manage ${this.getPluralName(title)}.`;
+        description = `Use the ${name} class to manage ${this.getPluralName(name)}.`;
       } else if (kindString === 'Interface') {
-        description = `The ${title} interface defines the structure for ${this.getPluralName(title)}.`;
+        description = `The ${name} interface defines the structure for ${this.getPluralName(name)}.`;
       } else if (kindString === 'Function') {
-        description = `Call ${title} to ${this.getActionFromName(title)}.`;
+        description = `Call ${name} to ${this.getActionFromName(name)}.`;
       } else if (kindString === 'Enum') {
-        description = `Use ${title} to specify ${this.getPluralName(title)}.`;
+        description = `Use ${name} to specify ${this.getPluralName(name)}.`;
       } else {
-        description = `Documentation for ${title}.`;
+        description = `Documentation for ${name}.`;
       }
     }
 
@@ -176,14 +285,141 @@ export class MintlifyReflectionRenderer {
     // Escape quotes in description
     const safeDescription = description.replace(/"/g, '\\"').replace(/\n/g, ' ').trim();
 
+    // Mintlify shows the tag next to the page title and its sidebar entry
+    const tag = getStatusTag(reflection);
+    let statusFields = tag ? `tag: "${tag.toUpperCase()}"\n` : '';
+    if (isReflectionDeprecated(reflection)) {
+      statusFields += 'deprecated: true\n';
+    }
+
     return `---
 title: "${title}"
 description: "${safeDescription}"
----
+${statusFields}---
 
 `;
   }
 
+  /**
+   * Render a variable or constant reflection
+   * Shows the declaration kind, type and initializer value
+   */
+  renderVariable(reflection: DeclarationReflection): string {
+    let content = '';
+
+    // Render summary/description
+    content += this.renderSummary(reflection);
+
+    // Badges for declaration kind and readonly status
+    const badges = [reflection.flags.isConst ? '`const`' : '`let`'];
+    if (reflection.flags.isReadonly) {
+      badges.push('`readonly`');
+    }
+    content += `${badges.join(' ')}\n\n`;
+
+    // Render type
+    if (reflection.type) {
+      content += `**Type:** ${this.formatInlineType(this.formatTypeWithLinks(reflection.type))}\n\n`;
+    }
+
+    // Render the properties of object-shaped values
+    const nested = this.renderNestedFields(reflection.type, 'ResponseField', 'name');
+    if (nested) {
+      content += `${nested}\n\n`;
+    }
+
+    // Render initializer value; TypeDoc abbreviates long initializers to '...'
+    if (reflection.defaultValue && reflection.defaultValue !== '...') {
+      content += `**Value:**\n\n\`\`\`typescript\n${reflection.defaultValue}\n\`\`\`\n\n`;
+    }
+
+    content += this.renderComments(reflection.comment);
+    content += this.renderSeeAlsoSection(reflection.comment);
+
+    return content;
+  }
+
+  /**
+   * Render a module or namespace reflection
+   * Lists members as cards grouped by kind; members without their own page, as with the
+   * "modules" output file strategy, are documented in full below their section's cards
+   */
+  renderModule(reflection: DeclarationReflection): string {
+    let content = '';
+
+    // Render summary/description
+    content += this.renderSummary(reflection);
+    content += this.renderComments(reflection.comment);
+
+    const children = (reflection.children || []) as DeclarationReflection[];
+    const sections = MODULE_MEMBER_SECTIONS.map((section) => ({
+      title: section.title,
+      members: children.filter((child) => child.kind === section.kind),
+    })).filter((section) => section.members.length > 0);
+    const seeAlso = this.renderSeeAlsoSection(reflection.comment);
+
+    const tocItems = sections.map((section) => section.title);
+    if (seeAlso) {
+      tocItems.push('See also');
+    }
+    content += this.renderToc(tocItems);
+
+    for (const section of sections) {
+      content += `### ${section.title}\n\n`;
+      const cards = section.members.map((member) => ({
+        title: member.name,
+        icon: getIconForKind(member.kind),
+        href: this.linkResolver.resolve(member),
+      }));
+      content += `${this.components.cardGroup(cards)}\n\n`;
+      for (const member of section.members) {
+        if (!this.linkResolver.getPageUrl(member)) {
+          content += this.renderInlineMember(member);
+        }
+      }
+    }
+
+    content += seeAlso;
+
+    return content;
+  }
+
+  /**
+   * Render a module member that has no page of its own under a `####` heading
+   * Its sections use bold titles instead of headings, and it gets no table of contents
+   */
+  private renderInlineMember(member: DeclarationReflection): string {
+    const comment = this.getStatusComment(member);
+    let content = this.renderMemberAnchor(member);
+    content += `#### ${this.formatMemberName(member.name, isReflectionDeprecated(member))}\n\n`;
+    content += this.renderSourceLink(member);
+    content += this.renderStatus(comment, true);
+
+    // The member stands in for the page while its body is rendered
+    const { frontmatterDescription, pageComment, pageSourceUrl } = this;
+    this.inline = true;
+    this.frontmatterDescription = undefined;
+    this.pageComment = comment;
+    this.pageSourceUrl = member.sources?.[0]?.url;
+    try {
+      content += this.renderBody(member);
+    } finally {
+      this.inline = false;
+      this.frontmatterDescription = frontmatterDescription;
+      this.pageComment = pageComment;
+      this.pageSourceUrl = pageSourceUrl;
+    }
+
+    return content;
+  }
+
+  /**
+   * Render the heading of a page section, or a bold title within an inline member
+   */
+  private renderSectionHeading(title: string): string {
+    return this.inline ? `**${title}**\n\n` : `### ${title}\n\n`;
+  }
+
   /**
    * Render a class reflection
    */
@@ -196,109 +432,365 @@ description: "${safeDescription}"
 
     // Build TOC
     const tocItems: string[] = [];
-    const constructors = (reflection.children || []).filter(
+    const children = this.getMembers(reflection);
+    const constructors = children.filter(
       (child) => child.kind === 512 // Constructor
-    ) as DeclarationReflection[];
-    const properties = (reflection.children || []).filter(
-      (child) => child.kind === 1024 // Property
-    ) as DeclarationReflection[];
-    const methods = (reflection.children || []).filter(
-      (child) => child.kind === 2048 // Method
-    ) as DeclarationReflection[];
+    );
+    const properties = children.filter(
+      (child) => child.kind === 1024 && !child.flags.isStatic // Property
+    );
+    const staticProperties = children.filter(
+      (child) => child.kind === 1024 && child.flags.isStatic // Static Property
+    );
+    const accessors = children.filter(
+      (child) => child.kind === 262144 // Accessor
+    );
+    const indexSignatures = reflection.indexSignatures || [];
+    const methods = children.filter(
+      (child) => child.kind === 2048 && !child.flags.isStatic // Method
+    );
+    const staticMethods = children.filter(
+      (child) => child.kind === 2048 && child.flags.isStatic // Static Method
+    );
 
+    const typeParameters = this.renderTypeParameterSection(reflection);
+    const hierarchy = this.renderHierarchy(reflection);
+    const thrownBy = this.renderThrownBy(reflection);
+    const seeAlso = this.renderSeeAlsoSection(reflection.comment);
+
+    if (typeParameters) {
+      tocItems.push('Type Parameters');
+    }
+    if (hierarchy) {
+      tocItems.push('Hierarchy');
+    }
+    if (thrownBy) {
+      tocItems.push('Thrown by');
+    }
     if (constructors.length > 0) {
       tocItems.push('Constructor');
     }
     if (properties.length > 0) {
       tocItems.push('Properties');
     }
+    if (staticProperties.length > 0) {
+      tocItems.push('Static Properties');
+    }
+    if (accessors.length > 0) {
+      tocItems.push('Accessors');
+    }
+    if (indexSignatures.length > 0) {
+      tocItems.push('Index Signatures');
+    }
     if (methods.length > 0) {
       tocItems.push('Methods');
     }
+    if (staticMethods.length > 0) {
+      tocItems.push('Static Methods');
+    }
+    if (seeAlso) {
+      tocItems.push('See also');
+    }
 
     if (tocItems.length > 0) {
       content += this.renderToc(tocItems);
     }
 
+    content += typeParameters;
+    content += hierarchy;
+    content += thrownBy;
+
     // Render constructor
     if (constructors.length > 0) {
-      content += '### Constructor\n\n';
+      content += this.renderSectionHeading('Constructor');
       for (const constructor of constructors) {
         if (constructor.signatures && constructor.signatures.length > 0) {
-          const sig = constructor.signatures[0];
-          // Use Expandable if constructor has parameters
-          if (sig.parameters && sig.parameters.length > 0) {
-            const sigContent = this.renderSignature(constructor.name, sig, true, true);
-            content += sigContent;
-          } else {
-            content += this.renderSignature(constructor.name, sig, true, false);
-          }
+          // Use Expandable if any constructor overload has parameters
+          const hasParameters = constructor.signatures.some(
+            (sig) => sig.parameters && sig.parameters.length > 0
+          );
+          content += this.renderMemberAnchor(constructor);
+          content += this.renderSignatures(
+            constructor.name,
+            constructor.signatures,
+            true,
+            hasParameters
+          );
         }
       }
       content += '\n';
     }
 
-    // Render properties - use AccordionGroup if more than 5
     if (properties.length > 0) {
-      content += '### Properties\n\n';
-      if (properties.length > 5) {
-        const accordions = properties.map((prop) => {
-          const propContent = this.renderProperty(prop);
-          return {
-            title: prop.name,
-            content: propContent.trim(),
-          };
-        });
-        content += `${this.components.accordionGroup(accordions)}\n\n`;
-      } else {
-        for (const prop of properties) {
-          content += this.renderProperty(prop);
-        }
-        content += '\n';
+      content += this.renderSectionHeading('Properties');
+      content += this.renderPropertyList(properties);
+    }
+
+    if (staticProperties.length > 0) {
+      content += this.renderSectionHeading('Static Properties');
+      content += this.renderPropertyList(staticProperties);
+    }
+
+    if (accessors.length > 0) {
+      content += this.renderSectionHeading('Accessors');
+      for (const accessor of accessors) {
+        content += this.renderMemberAnchor(accessor);
+        content += this.renderAccessor(accessor);
       }
+      content += '\n';
+    }
+
+    if (indexSignatures.length > 0) {
+      content += this.renderSectionHeading('Index Signatures');
+      content += this.renderIndexSignatures(indexSignatures);
     }
 
-    // Render methods - use AccordionGroup if more than 3
     if (methods.length > 0) {
-      content += '### Methods\n\n';
-      if (methods.length > 3) {
-        const accordions = methods
-          .map((method) => {
-            if (method.signatures && method.signatures.length > 0) {
-              const sig = method.signatures[0];
-              const params = sig.parameters || [];
-              const paramList = params
-                .map((p) => {
-                  const optional = p.flags.isOptional ? '?' : '';
-                  return `${p.name}${optional}: ${this.formatTypeWithLinks(p.type)}`;
-                })
-                .join(', ');
-              const returnType = sig.type ? this.formatTypeWithLinks(sig.type) : 'void';
-              const title = `${method.name}(${paramList}): ${returnType}`;
-              const methodContent = this.renderSignature(method.name, sig, false, true);
+      content += this.renderSectionHeading('Methods');
+      content += this.renderMethodList(methods);
+    }
+
+    if (staticMethods.length > 0) {
+      content += this.renderSectionHeading('Static Methods');
+      content += this.renderMethodList(staticMethods);
+    }
+
+    content += seeAlso;
+
+    return content;
+  }
+
+  /**
+   * Get the members of a class or interface, dropping inherited ones unless enabled
+   */
+  private getMembers(reflection: DeclarationReflection): DeclarationReflection[] {
+    const children = (reflection.children || []) as DeclarationReflection[];
+    if (this.options.includeInherited) {
+      return children;
+    }
+    return children.filter((child) => !child.inheritedFrom);
+  }
+
+  /**
+   * Render the extends/implements hierarchy of a class or interface
+   */
+  renderHierarchy(reflection: DeclarationReflection): string {
+    const rows: Array<{ label: string; types: Type[] | undefined }> = [
+      { label: 'Extends', types: reflection.extendedTypes },
+      { label: 'Implements', types: reflection.implementedTypes },
+      { label: 'Extended by', types: reflection.extendedBy },
+      { label: 'Implemented by', types: reflection.implementedBy },
+    ];
+
+    const lines = rows
+      .filter((row) => row.types && row.types.length > 0)
+      .map((row) => {
+        const types = row
+          .types!.map((type) => this.formatInlineType(this.formatTypeWithLinks(type)))
+          .join(', ');
+        return `- **${row.label}:** ${types}`;
+      });
+
+    if (lines.length === 0) {
+      return '';
+    }
+
+    return `${this.renderSectionHeading('Hierarchy')}${lines.join('\n')}\n\n`;
+  }
+
+  /**
+   * Render "Inherited from", "Overrides" and "Implementation of" notes for a member
+   */
+  private renderInheritanceNotes(member: {
+    inheritedFrom?: ReferenceType;
+    overwrites?: ReferenceType;
+    implementationOf?: ReferenceType;
+  }): string {
+    const notes: string[] = [];
+
+    if (member.inheritedFrom) {
+      notes.push(`Inherited from ${this.formatMemberReference(member.inheritedFrom)}`);
+    } else if (member.overwrites) {
+      // Inherited members also carry `overwrites`; only call out real overrides
+      notes.push(`Overrides ${this.formatMemberReference(member.overwrites)}`);
+    }
+    if (member.implementationOf) {
+      notes.push(`Implementation of ${this.formatMemberReference(member.implementationOf)}`);
+    }
+
+    if (notes.length === 0) {
+      return '';
+    }
+
+    return `*${notes.join(' · ')}*\n\n`;
+  }
+
+  /**
+   * Format a reference to a member of another type, e.g. `Base.method`
+   * Links to the member on the owning type's page when it has one
+   */
+  private formatMemberReference(ref: ReferenceType): string {
+    const url = this.linkResolver.resolveReference(ref);
+    return url ? `[\`${ref.name}\`](${url})` : `\`${ref.name}\``;
+  }
+
+  /**
+   * Render a list of class properties - use AccordionGroup if more than 5
+   */
+  private renderPropertyList(properties: DeclarationReflection[]): string {
+    let content = '';
+
+    if (properties.length > 5) {
+      const accordions = properties.map((prop) => {
+        const propContent = this.renderProperty(prop);
+        return {
+          title: prop.name,
+          content: propContent.trim(),
+          id: getMemberAnchor(prop),
+        };
+      });
+      content += `${this.components.accordionGroup(accordions)}\n\n`;
+    } else {
+      for (const prop of properties) {
+        content += this.renderMemberAnchor(prop);
+        content += this.renderProperty(prop);
+      }
+      content += '\n';
+    }
+
+    return content;
+  }
+
+  /**
+   * Render a list of class methods - use AccordionGroup if more than 3
+   */
+  private renderMethodList(methods: DeclarationReflection[]): string {
+    let content = '';
+
+    if (methods.length > 3) {
+      const accordions = methods
+        .map((method) => {
+          if (method.signatures && method.signatures.length > 0) {
+            const methodContent = this.renderSignatures(
+              method.name,
+              method.signatures,
+              false,
+              true
+            );
+            // Overloaded methods are titled by name since each overload has its own signature
+            if (method.signatures.length > 1) {
               return {
-                title,
+                title: `${method.name} (${method.signatures.length} overloads)`,
                 content: methodContent.trim(),
+                id: getMemberAnchor(method),
               };
             }
-            return { title: method.name, content: '' };
-          })
-          .filter((acc) => acc.content);
-        content += `${this.components.accordionGroup(accordions)}\n\n`;
-      } else {
-        for (const method of methods) {
-          if (method.signatures && method.signatures.length > 0) {
-            const sig = method.signatures[0];
-            content += this.renderSignature(method.name, sig, false, true);
+            // Attribute values cannot hold links, so the title is the plain signature
+            const title = sanitizeAttribute(getSignatureText(method.name, method.signatures[0]));
+            return {
+              title,
+              content: methodContent.trim(),
+              id: getMemberAnchor(method),
+            };
+          }
+          return { title: method.name, content: '' };
+        })
+        .filter((acc) => acc.content);
+      content += `${this.components.accordionGroup(accordions)}\n\n`;
+    } else {
+      for (const method of methods) {
+        if (method.signatures && method.signatures.length > 0) {
+          content += this.renderMemberAnchor(method);
+          // Overloads share one heading since no single signature line names them all
+          if (method.signatures.length > 1) {
+            const name = this.formatMemberName(method.name, isReflectionDeprecated(method));
+            content += `**${name}**\n\n`;
           }
+          content += this.renderSignatures(method.name, method.signatures, false, true);
         }
-        content += '\n';
+      }
+      content += '\n';
+    }
+
+    return content;
+  }
+
+  /**
+   * Render a getter/setter pair
+   * Accessors without a setter are shown as readonly
+   */
+  renderAccessor(accessor: DeclarationReflection): string {
+    const getter = accessor.getSignature;
+    const setter = accessor.setSignature;
+    const modifiers: string[] = [];
+    if (accessor.flags.isStatic) {
+      modifiers.push('static');
+    }
+    if (getter && !setter) {
+      modifiers.push('readonly');
+    }
+
+    const badges = modifiers.map((modifier) => ` \`${modifier}\``).join('');
+    const comment = getReflectionComment(accessor);
+    let content = `**${this.formatMemberName(accessor.name, isDeprecated(comment))}**${badges}\n\n`;
+    content += this.renderSourceLink(accessor);
+    content += this.renderInheritanceNotes(accessor);
+    content += this.renderStatus(comment);
+
+    if (getter) {
+      content += `**Get:** ${this.formatInlineType(this.formatTypeWithLinks(getter.type))}\n\n`;
+    }
+    if (setter) {
+      const valueType = setter.parameters?.[0]?.type;
+      content += `**Set:** ${this.formatInlineType(this.formatTypeWithLinks(valueType))}\n\n`;
+    }
+
+    // Accessor docs live on whichever signature was commented
+    const description =
+      this.extractCommentText(getter?.comment?.summary) ||
+      this.extractCommentText(setter?.comment?.summary) ||
+      this.extractCommentText(accessor.comment?.summary);
+    if (description) {
+      content += `${description}\n\n`;
+    }
+
+    return content;
+  }
+
+  /**
+   * Render index signatures as `[key: string]: T` entries
+   */
+  renderIndexSignatures(signatures: SignatureReflection[]): string {
+    let content = '';
+
+    for (const sig of signatures) {
+      const params = (sig.parameters || [])
+        .map((p) => `${p.name}: ${formatType(p.type)}`)
+        .join(', ');
+      const readonly = sig.flags.isReadonly ? 'readonly ' : '';
+      // Plain types in the code span; links don't work inside code
+      content += `\`${readonly}[${params}]: ${formatType(sig.type)}\`\n\n`;
+
+      const description = this.extractCommentText(sig.comment?.summary);
+      if (description) {
+        content += `${description}\n\n`;
       }
     }
 
     return content;
   }
 
+  /**
+   * Wrap a formatted type in backticks unless it contains links
+   * Links don't work inside code spans, so linked types are shown as escaped plain text
+   */
+  private formatInlineType(type: string): string {
+    if (type.includes('[') && type.includes('](')) {
+      return this.escapeTypeForMdx(type);
+    }
+    return `\`${type}\``;
+  }
+
   /**
    * Render an interface reflection
    */
@@ -310,12 +802,37 @@ description: "${safeDescription}"
     content += this.renderComments(reflection.comment);
 
     // Render properties
-    const properties = (reflection.children || []).filter(
+    const properties = this.getMembers(reflection).filter(
       (child) => child.kind === 1024 // Property
-    ) as DeclarationReflection[];
+    );
 
+    const indexSignatures = reflection.indexSignatures || [];
+    const typeParameters = this.renderTypeParameterSection(reflection);
+    const hierarchy = this.renderHierarchy(reflection);
+    const seeAlso = this.renderSeeAlsoSection(reflection.comment);
+
+    const tocItems: string[] = [];
+    if (typeParameters) {
+      tocItems.push('Type Parameters');
+    }
+    if (hierarchy) {
+      tocItems.push('Hierarchy');
+    }
     if (properties.length > 0) {
-      content += this.renderToc(['Properties']);
+      tocItems.push('Properties');
+    }
+    if (indexSignatures.length > 0) {
+      tocItems.push('Index Signatures');
+    }
+    if (seeAlso) {
+      tocItems.push('See also');
+    }
+    content += this.renderToc(tocItems);
+    content += typeParameters;
+    content += hierarchy;
+
+    if (properties.length > 0) {
+      content += this.renderSectionHeading('Properties');
       // Use AccordionGroup if more than 5 properties
       if (properties.length > 5) {
         const accordions = properties.map((prop) => {
@@ -323,16 +840,25 @@ description: "${safeDescription}"
           return {
             title: prop.name,
             content: propContent.trim(),
+            id: getMemberAnchor(prop),
           };
         });
         content += `${this.components.accordionGroup(accordions)}\n\n`;
       } else {
         for (const prop of properties) {
+          content += this.renderMemberAnchor(prop);
           content += this.renderInterfaceProperty(prop);
         }
       }
     }
 
+    if (indexSignatures.length > 0) {
+      content += this.renderSectionHeading('Index Signatures');
+      content += this.renderIndexSignatures(indexSignatures);
+    }
+
+    content += seeAlso;
+
     return content;
   }
 
@@ -349,13 +875,19 @@ description: "${safeDescription}"
     // Build TOC
     const tocItems: string[] = [];
     if (reflection.signatures && reflection.signatures.length > 0) {
-      const sig = reflection.signatures[0];
-      if (sig.parameters && sig.parameters.length > 0) {
+      const signatures = reflection.signatures;
+      if (signatures.some((sig) => sig.parameters && sig.parameters.length > 0)) {
         tocItems.push('Parameters');
       }
-      if (sig.type) {
+      if (signatures.some((sig) => sig.type)) {
         tocItems.push('Returns');
       }
+      if (signatures.some((sig) => sig.comment?.getTag('@throws'))) {
+        tocItems.push('Throws');
+      }
+      if (signatures.some((sig) => sig.comment?.getTag('@see'))) {
+        tocItems.push('See also');
+      }
     }
 
     if (tocItems.length > 0) {
@@ -364,9 +896,7 @@ description: "${safeDescription}"
 
     // Render function signature(s) - use Expandable for parameters and returns
     if (reflection.signatures && reflection.signatures.length > 0) {
-      for (const sig of reflection.signatures) {
-        content += this.renderSignature(reflection.name, sig, false, true);
-      }
+      content += this.renderSignatures(reflection.name, reflection.signatures, false, true, true);
     }
 
     return content;
@@ -386,10 +916,19 @@ description: "${safeDescription}"
     const members = (reflection.children || []).filter(
       (child) => child.kind === 16 // Enum Member
     ) as DeclarationReflection[];
+    const seeAlso = this.renderSeeAlsoSection(reflection.comment);
+
+    const tocItems: string[] = [];
+    if (members.length > 0) {
+      tocItems.push('Members');
+    }
+    if (seeAlso) {
+      tocItems.push('See also');
+    }
+    content += this.renderToc(tocItems);
 
     if (members.length > 0) {
-      content += this.renderToc(['Members']);
-      content += '### Members\n\n';
+      content += this.renderSectionHeading('Members');
 
       // Use a compact table format for better readability
       content += '| Name | Value | Description |\n';
@@ -399,12 +938,16 @@ description: "${safeDescription}"
         const name = member.name;
         const value = member.defaultValue || name;
         const description = this.extractCommentText(member.comment?.summary) || '—';
-        content += `| \`${name}\` | \`${value}\` | ${description} |\n`;
+        const anchor = this.components.anchor(getMemberAnchor(member));
+        const nameCell = `${anchor} ${this.formatMemberName(`\`${name}\``, isDeprecated(member.comment))}`;
+        content += `| ${nameCell} | \`${value}\` | ${description} |\n`;
       }
 
       content += '\n';
     }
 
+    content += seeAlso;
+
     return content;
   }
 
@@ -420,49 +963,70 @@ description: "${safeDescription}"
 
     // Render type
     if (reflection.type) {
-      const typeStr = this.formatTypeWithLinks(reflection.type);
-      // If type contains links, don't put it in backticks (links don't work in code blocks)
-      // But we need to escape curly braces to prevent MDX parsing issues
-      if (typeStr.includes('[') && typeStr.includes('](')) {
-        // Escape curly braces for MDX (they would be parsed as JSX otherwise)
-        const escapedType = typeStr.replace(/\{/g, '\\{').replace(/\}/g, '\\}');
-        content += `**Type:** ${escapedType}\n\n`;
-      } else {
-        content += `**Type:** \`${typeStr}\`\n\n`;
-      }
+      content += `**Type:** ${this.formatInlineType(this.formatTypeWithLinks(reflection.type))}\n\n`;
     }
 
+    content += this.renderTypeParameterSection(reflection);
+    content += this.renderSeeAlsoSection(reflection.comment);
+
     return content;
   }
 
+  /**
+   * Render all overloads of a function, method or constructor
+   * A single signature is rendered directly; overloads are grouped into one Tab each
+   */
+  renderSignatures(
+    name: string,
+    signatures: SignatureReflection[],
+    isConstructor: boolean,
+    useExpandable: boolean = false,
+    anchorSections: boolean = false
+  ): string {
+    if (signatures.length === 1) {
+      return this.renderSignature(
+        name,
+        signatures[0],
+        isConstructor,
+        useExpandable,
+        anchorSections
+      );
+    }
+
+    // Only the first overload carries section anchors, so their ids stay unique on the page
+    const tabs = signatures.map((sig, index) => ({
+      title: `Overload ${index + 1}`,
+      content: this.renderSignature(
+        name,
+        sig,
+        isConstructor,
+        useExpandable,
+        anchorSections && index === 0
+      ).trim(),
+    }));
+    return `${this.components.tabs(tabs)}\n\n`;
+  }
+
   /**
    * Render a function/method signature
+   * With `anchorSections`, collapsed sections get explicit anchors so a page TOC can link to them
    */
   renderSignature(
     name: string,
     signature: SignatureReflection,
     isConstructor: boolean,
-    useExpandable: boolean = false
+    useExpandable: boolean = false,
+    anchorSections: boolean = false
   ): string {
     let content = '';
 
-    // Render signature header
-    const params = signature.parameters || [];
-    // For code blocks, use plain type names (links don't work in code)
-    const paramList = params
-      .map((p) => {
-        const optional = p.flags.isOptional ? '?' : '';
-        const plainType = formatType(p.type); // Plain type for code block
-        return `${p.name}${optional}: ${plainType}`;
-      })
-      .join(', ');
-
-    const returnType = signature.type ? formatType(signature.type) : 'void'; // Plain type for code block
-    const sigText = isConstructor
-      ? `new ${name}(${paramList})`
-      : `${name}(${paramList}): ${returnType}`;
+    // Render signature header; code spans can't hold links, so types are plain text
+    const sigText = getSignatureText(name, signature, isConstructor);
 
     content += `\`${sigText}\`\n\n`;
+    content += this.renderSourceLink(signature);
+    content += this.renderInheritanceNotes(signature);
+    content += this.renderStatus(signature.comment);
 
     // Render description from signature comment
     if (signature.comment) {
@@ -472,33 +1036,238 @@ description: "${safeDescription}"
       }
     }
 
-    // Render parameters - use Expandable if useExpandable is true
+    // Render type parameters, parameters, returns, errors and related links - use Expandable
+    // if useExpandable is true
+    // Constructor signatures repeat the class type parameters, which the class page already lists
+    if (!isConstructor && signature.typeParameters && signature.typeParameters.length > 0) {
+      const typeParamsContent = this.renderTypeParameters(signature.typeParameters);
+      content += this.renderSignatureSection(
+        'Type Parameters',
+        typeParamsContent,
+        useExpandable,
+        anchorSections
+      );
+    }
+
+    const params = signature.parameters || [];
     if (params.length > 0) {
       const paramsContent = this.renderParameters(params);
-      if (useExpandable) {
-        content += `${this.components.expandable('Parameters', paramsContent.trim())}\n\n`;
-      } else {
-        content += '#### Parameters\n\n';
-        content += paramsContent;
-        content += '\n';
-      }
+      content += this.renderSignatureSection(
+        'Parameters',
+        paramsContent,
+        useExpandable,
+        anchorSections
+      );
     }
 
-    // Render return type - use Expandable if useExpandable is true
     if (signature.type && !isConstructor) {
       const returnsContent = this.renderReturnType(signature);
-      if (useExpandable) {
-        content += `${this.components.expandable('Returns', returnsContent.trim())}\n\n`;
-      } else {
-        content += '#### Returns\n\n';
-        content += returnsContent;
-        content += '\n';
+      content += this.renderSignatureSection(
+        'Returns',
+        returnsContent,
+        useExpandable,
+        anchorSections
+      );
+    }
+
+    const throwsContent = this.renderThrows(signature);
+    if (throwsContent) {
+      content += this.renderSignatureSection(
+        'Throws',
+        throwsContent,
+        useExpandable,
+        anchorSections
+      );
+    }
+
+    const seeAlsoContent = this.renderSeeAlso(signature.comment);
+    if (seeAlsoContent) {
+      content += this.renderSignatureSection(
+        'See also',
+        seeAlsoContent,
+        useExpandable,
+        anchorSections
+      );
+    }
+
+    return content;
+  }
+
+  /**
+   * Render one section of a signature, as an Expandable or under a `####` heading
+   * Expandables have no heading id, so `anchor` adds the id the heading would have had
+   */
+  private renderSignatureSection(
+    title: string,
+    body: string,
+    useExpandable: boolean,
+    anchor: boolean
+  ): string {
+    if (!useExpandable) {
+      return this.inline ? `**${title}**\n\n${body}\n` : `#### ${title}\n\n${body}\n`;
+    }
+    const anchorTag =
+      anchor && !this.inline ? `${this.components.anchor(getHeadingAnchor(title))}\n\n` : '';
+    return `${anchorTag}${this.components.expandable(title, body.trim())}\n\n`;
+  }
+
+  /**
+   * Render the errors a signature documents with `@throws`, linking documented error classes
+   */
+  private renderThrows(signature: SignatureReflection): string {
+    const tags = this.parseThrowsTags(signature);
+    if (tags.length === 0) {
+      return '';
+    }
+
+    const lines = tags.map(({ typeName, target, content }) => {
+      const description = this.extractCommentText(content);
+      const type = typeName ? this.formatTypeName(typeName, target) : '';
+      const separator = type && description ? ' — ' : '';
+      return `- ${type}${separator}${description}`;
+    });
+
+    return `${lines.join('\n')}\n\n`;
+  }
+
+  /**
+   * Split the `@throws {Type} description` and `@throws {@link Type} description` tags of a
+   * signature into the thrown type and the parts of its description
+   */
+  private parseThrowsTags(signature: SignatureReflection): Array<{
+    typeName?: string;
+    target?: InlineTagDisplayPart['target'];
+    content: CommentDisplayPart[];
+  }> {
+    const types = getThrownTypes(signature);
+    const tags = (signature.comment?.blockTags || []).filter((tag) => tag.tag === '@throws');
+    return tags.map((tag, index) => {
+      const [first, ...rest] = tag.content;
+      if (first?.kind === 'inline-tag' && INLINE_LINK_TAGS.includes(first.tag)) {
+        return { typeName: first.text.trim(), target: first.target, content: rest };
+      }
+      return { typeName: types[index], content: tag.content };
+    });
+  }
+
+  /**
+   * Render the functions and methods that document throwing the given error class
+   */
+  private renderThrownBy(reflection: DeclarationReflection): string {
+    const throwers = new Map<string, string>();
+
+    for (const candidate of Object.values(reflection.project.reflections)) {
+      if (candidate.kind !== 4096 && candidate.kind !== 16384) {
+        // Call Signature / Constructor Signature
+        continue;
+      }
+      const signature = candidate as SignatureReflection;
+      const owner = signature.parent;
+      // Only the thrown type is needed, so the tag text isn't rendered here
+      const throwsReflection = this.parseThrowsTags(signature).some(
+        ({ typeName, target }) =>
+          target === reflection || (typeName && this.isSameSymbol(typeName, reflection))
+      );
+      if (!throwsReflection || owner.inheritedFrom) {
+        continue;
+      }
+
+      // Methods and constructors link to their class page, functions to their own page
+      const isMember = owner.kind === 2048 || owner.kind === 512; // Method / Constructor
+      const name = isMember ? `${owner.parent?.name}.${owner.name}` : owner.name;
+      const url = this.linkResolver.resolve(owner);
+      throwers.set(name, url ? `[\`${name}\`](${url})` : `\`${name}\``);
+    }
+
+    if (throwers.size === 0) {
+      return '';
+    }
+
+    const lines = [...throwers.values()].map((link) => `- ${link}`);
+    return `${this.renderSectionHeading('Thrown by')}${lines.join('\n')}\n\n`;
+  }
+
+  /**
+   * Check whether a symbol name written in a comment refers to the given reflection
+   * Names are matched through the link resolver so same-named symbols are told apart
+   */
+  private isSameSymbol(name: string, reflection: Reflection): boolean {
+    const url = this.linkResolver.getPageUrl(reflection);
+    return url ? this.linkResolver.resolveName(name) === url : name === reflection.name;
+  }
+
+  /**
+   * Format a type referenced by name, linking it when it has its own page
+   * A link target TypeDoc resolved takes precedence; globals like `Error` link to their
+   * upstream docs
+   */
+  private formatTypeName(name: string, target?: InlineTagDisplayPart['target']): string {
+    let url: string | undefined;
+    if (typeof target === 'string') {
+      url = target;
+    } else if (target && 'kind' in target) {
+      url = this.resolveReflectionLink(target);
+    }
+    url = url || this.linkResolver.resolveName(name) || resolveGlobalTypeName(name);
+    return url ? `[${name}](${url})` : `\`${name}\``;
+  }
+
+  /**
+   * Render the Type Parameters section of a generic class, interface or type alias
+   */
+  private renderTypeParameterSection(reflection: DeclarationReflection): string {
+    if (!reflection.typeParameters || reflection.typeParameters.length === 0) {
+      return '';
+    }
+    return `${this.renderSectionHeading('Type Parameters')}${this.renderTypeParameters(reflection.typeParameters)}`;
+  }
+
+  /**
+   * Render type parameters as ParamField components
+   * Shows the constraint as the type and the default as Mintlify's default attribute
+   */
+  renderTypeParameters(typeParameters: TypeParameterReflection[]): string {
+    let content = '';
+
+    for (const typeParam of typeParameters) {
+      const constraint = typeParam.type ? this.formatTypeWithLinks(typeParam.type) : '';
+      const defaultType = typeParam.default ? this.formatTypeWithLinks(typeParam.default) : '';
+      let description =
+        this.extractCommentText(typeParam.comment?.summary) || `The ${typeParam.name} type.`;
+
+      // Attributes don't support markdown, so linked types are repeated in the description
+      if (constraint.includes('](')) {
+        description = `${description} Must extend ${this.escapeTypeForMdx(constraint)}.`;
       }
+      if (defaultType.includes('](')) {
+        description = `${description} Defaults to ${this.escapeTypeForMdx(defaultType)}.`;
+      }
+
+      const plainConstraint = constraint.replace(/\[([^\]]+)\]\([^)]+\)/g, '$1');
+      const plainDefault = defaultType.replace(/\[([^\]]+)\]\([^)]+\)/g, '$1');
+      const typeAttr = plainConstraint
+        ? ` type="extends ${sanitizeAttribute(plainConstraint)}"`
+        : '';
+      const defaultAttr = plainDefault ? ` default="${sanitizeAttribute(plainDefault)}"` : '';
+
+      content += `<ParamField path="${sanitizeAttribute(typeParam.name)}"${typeAttr}${defaultAttr}>\n`;
+      content += `${description}\n`;
+      content += `</ParamField>\n\n`;
     }
 
     return content;
   }
 
+  /**
+   * Format type parameter names for signature lines and titles, e.g. `<T, K>`
+   */
+  private formatTypeParameterNames(typeParameters: TypeParameterReflection[] | undefined): string {
+    if (!typeParameters || typeParameters.length === 0) {
+      return '';
+    }
+    return `<${typeParameters.map((typeParam) => typeParam.name).join(', ')}>`;
+  }
+
   /**
    * Render parameters as ParamField components
    */
@@ -508,7 +1277,8 @@ description: "${safeDescription}"
     for (const param of parameters) {
       const name = param.name;
       const type = this.formatTypeWithLinks(param.type);
-      const required = !param.flags.isOptional;
+      // Parameters with an initializer can be omitted even though they aren't marked optional
+      const required = !param.flags.isOptional && !param.defaultValue;
       let description =
         this.extractCommentText(param.comment?.summary) ||
         this.generateParameterDescription(name, type);
@@ -538,16 +1308,124 @@ description: "${safeDescription}"
               ? 'header'
               : 'body';
 
+      const nested = this.renderNestedFields(param.type, 'ParamField', locationAttr);
+
       // For ParamField, extract plain type name for attribute (links are in description)
-      const typeForAttribute = type.replace(/\[([^\]]+)\]\([^)]+\)/g, '$1');
-      content += `<ParamField ${locationAttr}="${sanitizeAttribute(name)}" type="${sanitizeAttribute(typeForAttribute)}"${required ? ' required' : ''}>\n`;
+      // Expanded object types are summarized since their properties are listed below
+      let typeForAttribute = type.replace(/\[([^\]]+)\]\([^)]+\)/g, '$1');
+      if (nested && !this.isSimpleType(type)) {
+        typeForAttribute = this.getSimpleTypeName(type);
+      }
+      const defaultValue = this.formatDefaultValue(this.getDefaultValue(param));
+      content += `<ParamField ${locationAttr}="${sanitizeAttribute(name)}" type="${sanitizeAttribute(typeForAttribute)}"${required ? ' required' : ''}${defaultValue.attribute}>\n`;
       content += `${description}\n`;
+      content += defaultValue.body;
+      if (nested) {
+        content += `\n${nested}\n`;
+      }
       content += `</ParamField>\n\n`;
     }
 
     return content;
   }
 
+  /**
+   * Render the properties of an object type as nested fields inside an Expandable
+   * Inline object types are always expanded; referenced interfaces only when enabled.
+   * Expansion stops at the configured depth and when a type is already being expanded.
+   */
+  private renderNestedFields(
+    type: Type | undefined,
+    field: 'ParamField' | 'ResponseField',
+    nameAttr: string,
+    depth: number = 1,
+    seen: Set<Reflection> = new Set()
+  ): string {
+    if (depth > this.options.expandDepth) {
+      return '';
+    }
+
+    const container = this.getExpandableContainer(type);
+    if (!container || seen.has(container)) {
+      return '';
+    }
+
+    const members = ((container.children || []) as DeclarationReflection[]).filter(
+      (child) => child.kind === 1024 // Property
+    );
+    if (members.length === 0) {
+      return '';
+    }
+
+    const nextSeen = new Set(seen).add(container);
+    const fields = members.map((member) => {
+      const memberType = this.formatTypeWithLinks(member.type);
+      const typeForAttribute = this.isSimpleType(memberType)
+        ? memberType.replace(/\[([^\]]+)\]\([^)]+\)/g, '$1')
+        : this.getSimpleTypeName(memberType);
+      const required = !member.flags.isOptional;
+      const description =
+        this.extractCommentText(member.comment?.summary) || `The ${member.name} property.`;
+      const nested = this.renderNestedFields(member.type, field, nameAttr, depth + 1, nextSeen);
+
+      const defaultValue = this.formatDefaultValue(this.getDefaultValue(member));
+      let fieldContent = `<${field} ${nameAttr}="${sanitizeAttribute(member.name)}" type="${sanitizeAttribute(typeForAttribute)}"${required ? ' required' : ''}${defaultValue.attribute}>\n`;
+      fieldContent += `${description}\n`;
+      fieldContent += defaultValue.body;
+      if (nested) {
+        fieldContent += `\n${nested}\n`;
+      }
+      fieldContent += `</${field}>`;
+      return fieldContent;
+    });
+
+    return this.components.expandable('properties', fields.join('\n\n'));
+  }
+
+  /**
+   * Find the reflection whose properties describe an object type, if it can be expanded
+   * Looks through arrays and promises to the element type
+   */
+  private getExpandableContainer(type: Type | undefined): DeclarationReflection | undefined {
+    if (!type) {
+      return undefined;
+    }
+
+    if (type.type === 'array') {
+      return this.getExpandableContainer((type as ArrayType).elementType);
+    }
+
+    if (type.type === 'reflection') {
+      const declaration = (type as ReflectionType).declaration;
+      // Function types are rendered as signatures, not properties
+      if (declaration.signatures && declaration.signatures.length > 0) {
+        return undefined;
+      }
+      return declaration.children && declaration.children.length > 0 ? declaration : undefined;
+    }
+
+    if (type.type === 'reference') {
+      const ref = type as ReferenceType;
+      if (ref.name === 'Promise' && ref.typeArguments && ref.typeArguments.length > 0) {
+        return this.getExpandableContainer(ref.typeArguments[0]);
+      }
+      if (!this.options.expandReferences) {
+        return undefined;
+      }
+      const target = ref.reflection as DeclarationReflection | undefined;
+      if (target?.kind === 256) {
+        // Interface
+        return target;
+      }
+      if (target?.kind === 2097152) {
+        // Type Alias - only object literal aliases have properties to expand
+        return this.getExpandableContainer(target.type);
+      }
+    }
+
+    return undefined;
+  }
+
   /**
    * Render return type as ResponseField component
    */
@@ -575,7 +1453,9 @@ description: "${safeDescription}"
 
     // For ResponseField, we need to extract the plain type name for the attribute
     const typeForAttribute = type.replace(/\[([^\]]+)\]\([^)]+\)/g, '$1');
-    return `<ResponseField name="returns" type="${sanitizeAttribute(typeForAttribute)}">\n${description}\n</ResponseField>\n\n`;
+    const nested = this.renderNestedFields(signature.type, 'ResponseField', 'name');
+    const body = nested ? `${description}\n\n${nested}` : description;
+    return `<ResponseField name="returns" type="${sanitizeAttribute(typeForAttribute)}">\n${body}\n</ResponseField>\n\n`;
   }
 
   /**
@@ -588,7 +1468,7 @@ description: "${safeDescription}"
     let description = this.extractCommentText(property.comment?.summary) || `The ${name} property.`;
 
     // Use bold text instead of H5 heading (Mintlify only supports up to H4)
-    let content = `**${name}**\n\n`;
+    let content = `**${this.formatMemberName(name, isDeprecated(property.comment))}**\n\n`;
 
     // Determine the type for the attribute - always use simple type name
     // Extract base type name (before any generics) to avoid MDX parsing issues
@@ -616,8 +1496,18 @@ description: "${safeDescription}"
       description = `${description} Type: \`${plainType}\`.`;
     }
 
-    content += `<ResponseField name="${sanitizeAttribute(name)}" type="${sanitizeAttribute(typeForAttribute)}"${required ? ' required' : ''}>\n`;
+    const deprecated = isDeprecated(property.comment) ? ' deprecated' : '';
+    const defaultValue = this.formatDefaultValue(this.getDefaultValue(property));
+    content += `<ResponseField name="${sanitizeAttribute(name)}" type="${sanitizeAttribute(typeForAttribute)}"${required ? ' required' : ''}${defaultValue.attribute}${deprecated}>\n`;
+    content += this.renderSourceLink(property);
+    content += this.renderInheritanceNotes(property);
+    content += this.renderStatus(property.comment);
     content += `${description}\n`;
+    content += defaultValue.body;
+    const nested = this.renderNestedFields(property.type, 'ResponseField', 'name');
+    if (nested) {
+      content += `\n${nested}\n`;
+    }
     content += `</ResponseField>\n\n`;
 
     return content;
@@ -633,18 +1523,27 @@ description: "${safeDescription}"
       this.extractCommentText(property.comment?.summary) || `The ${name} property.`;
 
     // Use bold text instead of H5 heading (Mintlify only supports up to H4)
-    let content = `**${name}**\n\n`;
-    // If type contains links, don't put it in backticks (links don't work in code blocks)
-    // Otherwise, use backticks for code formatting
-    if (type.includes('[') && type.includes('](')) {
-      content += `**Type:** ${type}\n\n`;
-    } else {
-      content += `**Type:** \`${type}\`\n\n`;
+    let content = `**${this.formatMemberName(name, isDeprecated(property.comment))}**\n\n`;
+    content += this.renderSourceLink(property);
+    content += this.renderInheritanceNotes(property);
+    content += this.renderStatus(property.comment);
+    content += `**Type:** ${this.formatInlineType(type)}\n\n`;
+    const defaultValue = this.getDefaultValue(property);
+    if (defaultValue) {
+      content += defaultValue.includes('\n')
+        ? `**Default:**\n\n\`\`\`typescript\n${defaultValue}\n\`\`\`\n\n`
+        : `**Default:** \`${defaultValue}\`\n\n`;
     }
     if (description) {
       content += `${description}\n\n`;
     }
 
+    // Render the properties of object-shaped values, like interface properties
+    const nested = this.renderNestedFields(property.type, 'ResponseField', 'name');
+    if (nested) {
+      content += `${nested}\n\n`;
+    }
+
     return content;
   }
 
@@ -664,6 +1563,77 @@ description: "${safeDescription}"
     return content;
   }
 
+  /**
+   * Render release status: stage and `@since` badges, and a warning for `@deprecated`
+   * Members skip the page's own comment and any release stage TypeDoc cascaded from the page
+   */
+  private renderStatus(comment: Comment | undefined, isPage: boolean = false): string {
+    if (!isPage && comment === this.pageComment) {
+      return '';
+    }
+
+    let content = '';
+
+    const badges: string[] = [];
+    const stage = getReleaseStage(comment);
+    if (stage && (isPage || stage !== getReleaseStage(this.pageComment))) {
+      badges.push(`\`${stage}\``);
+    }
+    const since = getSinceVersion(comment);
+    if (since) {
+      badges.push(`\`Since ${since}\``);
+    }
+    if (badges.length > 0) {
+      content += `${badges.join(' ')}\n\n`;
+    }
+
+    const deprecated = comment?.getTag('@deprecated');
+    if (deprecated) {
+      const text = this.extractCommentText(deprecated.content);
+      const message = text ? `**Deprecated:** ${text}` : '**Deprecated.**';
+      content += `${this.components.warning(message)}\n\n`;
+    }
+
+    return content;
+  }
+
+  /**
+   * Render a small link to where a reflection is defined in the repository
+   * URLs come from TypeDoc, which honors `gitRevision` and `sourceLinkTemplate`
+   */
+  private renderSourceLink(reflection: Reflection & { sources?: SourceReference[] }): string {
+    const url = reflection.sources?.[0]?.url;
+    if (!this.options.sourceLinks || !url || url === this.pageSourceUrl) {
+      return '';
+    }
+    return `${this.components.icon('code')} [Source](${url})\n\n`;
+  }
+
+  /**
+   * Render the explicit anchor that links to a member land on
+   */
+  private renderMemberAnchor(member: Reflection): string {
+    return `${this.components.anchor(getMemberAnchor(member))}\n\n`;
+  }
+
+  /**
+   * Strike through the name of a deprecated member
+   */
+  private formatMemberName(name: string, deprecated: boolean): string {
+    return deprecated ? `~~${name}~~` : name;
+  }
+
+  /**
+   * Get the comment whose status is shown under a page or member title
+   * Overloads without a shared comment show their own status in their tab instead
+   */
+  private getStatusComment(reflection: DeclarationReflection): Comment | undefined {
+    if (!reflection.comment && (reflection.signatures?.length || 0) > 1) {
+      return undefined;
+    }
+    return getReflectionComment(reflection);
+  }
+
   /**
    * Render summary/description from comment
    * Skips if the summary is the same as the frontmatter description to avoid duplication
@@ -763,10 +1733,86 @@ description: "${safeDescription}"
     return content;
   }
 
+  /**
+   * Render the `### See also` section of a page
+   * Goes after the member sections, so it is listed last in the page's table of contents
+   */
+  private renderSeeAlsoSection(comment: Comment | undefined): string {
+    const seeAlso = this.renderSeeAlso(comment);
+    return seeAlso ? `${this.renderSectionHeading('See also')}${seeAlso}` : '';
+  }
+
+  /**
+   * Render `@see` tags: reflection targets as cards, URLs and guide paths as plain links
+   */
+  private renderSeeAlso(comment: Comment | undefined): string {
+    const tags = (comment?.blockTags || []).filter((tag) => tag.tag === '@see');
+    const cards: Array<{ title: string; icon: string; href: string }> = [];
+    const links: string[] = [];
+
+    // TypeDoc merges repeated `@see` tags into a single tag with one ` - ` line per reference
+    const items: CommentDisplayPart[][] = [];
+    for (const tag of tags) {
+      let item: CommentDisplayPart[] = [];
+      items.push(item);
+      for (const part of tag.content) {
+        if (part.kind !== 'text' || !part.text.includes('\n')) {
+          item.push(part);
+          continue;
+        }
+        const [first, ...rest] = part.text.split('\n');
+        item.push({ kind: 'text', text: first });
+        for (const text of rest) {
+          item = [{ kind: 'text', text }];
+          items.push(item);
+        }
+      }
+    }
+
+    for (const item of items) {
+      const linkPart = item.find(
+        (part): part is InlineTagDisplayPart =>
+          part.kind === 'inline-tag' && INLINE_LINK_TAGS.includes(part.tag)
+      );
+      const target = linkPart?.target;
+      if (linkPart && target && typeof target === 'object' && 'kind' in target) {
+        const href = this.resolveReflectionLink(target);
+        if (href) {
+          cards.push({
+            title: sanitizeAttribute(linkPart.text),
+            icon: getIconForKind(target.kind),
+            href,
+          });
+          continue;
+        }
+      }
+
+      // Bare URLs and guide paths become links; anything else is kept as written
+      const text = this.extractCommentText(item).replace(/^-\s*/, '');
+      const bareLink = text.match(/^(https?:\/\/\S+|\/\S+)\s*([\s\S]*)$/);
+      if (bareLink) {
+        links.push(`- [${bareLink[2] || bareLink[1]}](${bareLink[1]})`);
+      } else if (text) {
+        links.push(`- ${text}`);
+      }
+    }
+
+    let content = '';
+    if (cards.length > 0) {
+      content += `${this.components.cardGroup(cards)}\n\n`;
+    }
+    if (links.length > 0) {
+      content += `${links.join('\n')}\n\n`;
+    }
+
+    return content;
+  }
+
   /**
    * Extract text from comment content array
+   * Inline `{@link}` tags are resolved to Mintlify links
    */
-  private extractCommentText(content: Array<{ text?: string; kind?: string }> | undefined): string {
+  private extractCommentText(content: CommentDisplayPart[] | undefined): string {
     if (!content) {
       return '';
     }
@@ -776,12 +1822,103 @@ description: "${safeDescription}"
         if (part.kind === 'code' && part.text) {
           return `\`${part.text}\``;
         }
+        if (part.kind === 'inline-tag' && INLINE_LINK_TAGS.includes(part.tag)) {
+          return this.formatInlineLink(part);
+        }
         return part.text || '';
       })
       .join('')
       .trim();
   }
 
+  /**
+   * Format an inline `{@link}`, `{@linkcode}` or `{@linkplain}` tag as a Markdown link
+   * Unresolved targets fall back to their text and are reported as warnings
+   */
+  private formatInlineLink(part: InlineTagDisplayPart): string {
+    const text = part.tag === '@linkcode' ? `\`${part.text}\`` : part.text;
+
+    let url: string | undefined;
+    if (typeof part.target === 'string') {
+      // External URL
+      url = part.target;
+    } else if (part.target && 'kind' in part.target) {
+      url = this.resolveReflectionLink(part.target);
+    }
+
+    if (!url) {
+      const targetName =
+        part.target && typeof part.target === 'object' && 'name' in part.target
+          ? part.target.name
+          : part.text;
+      const message = `[typedoc-mintlify] Could not resolve ${part.tag} to "${targetName}" on ${this.currentPageUrl || 'unknown page'}`;
+      if (!this.reportedLinks.has(message)) {
+        this.reportedLinks.add(message);
+        this.logger?.warn(message);
+      }
+      return text;
+    }
+
+    return `[${text}](${url})`;
+  }
+
+  /**
+   * Resolve a reflection to its absolute Mintlify URL
+   * Members without their own page link to an anchor on the nearest page that documents them
+   */
+  private resolveReflectionLink(target: Reflection): string | undefined {
+    if (target.kind === 1) {
+      // Project
+      return this.indexPageUrl;
+    }
+    return this.linkResolver.resolve(target);
+  }
+
+  /**
+   * Get the default value of a parameter or property
+   * Initializers take precedence over `@defaultValue` and `@default` tags
+   */
+  private getDefaultValue(reflection: {
+    defaultValue?: string;
+    comment?: Comment;
+  }): string | undefined {
+    // TypeDoc abbreviates long initializers to '...'
+    if (reflection.defaultValue && reflection.defaultValue !== '...') {
+      return reflection.defaultValue;
+    }
+
+    const tag = reflection.comment?.blockTags.find(
+      (blockTag) => blockTag.tag === '@defaultValue' || blockTag.tag === '@default'
+    );
+    if (!tag) {
+      return undefined;
+    }
+
+    // Tag values are usually written as a code block or inline code
+    const value = tag.content
+      .map((part) => part.text)
+      .join('')
+      .trim()
+      .replace(/^```\w*\n([\s\S]*?)\n?```$/, '$1')
+      .replace(/^`([^`]*)`$/, '$1')
+      .trim();
+    return value || undefined;
+  }
+
+  /**
+   * Format a default value for a ParamField or ResponseField
+   * Single-line values become the `default` attribute; multi-line values a code block in the body
+   */
+  private formatDefaultValue(value: string | undefined): { attribute: string; body: string } {
+    if (!value) {
+      return { attribute: '', body: '' };
+    }
+    if (value.includes('\n')) {
+      return { attribute: '', body: `\n**Default:**\n\n\`\`\`typescript\n${value}\n\`\`\`\n` };
+    }
+    return { attribute: ` default="${sanitizeAttribute(value)}"`, body: '' };
+  }
+
   /**
    * Determine parameter location for ParamField
    */
@@ -883,17 +2020,25 @@ description: "${safeDescription}"
   }
 
   /**
-   * Escape angle brackets in type strings to prevent MDX parsing issues
-   * When types contain links like Promise<[User](...)> we need to escape the < and >
+   * Escape a type written as plain markdown so MDX doesn't read it as JSX or an expression
+   * Pattern: [Map](...)<string, { id: string }> -> [Map](...)&lt;string, \{ id: string \}&gt;
+   * Code spans and link URLs are left as they are
    */
   private escapeTypeForMdx(type: string): string {
-    // If the type contains links with angle brackets, escape them
-    // Pattern: Promise<[User](/api/interfaces/User)> -> Promise&lt;[User](/api/interfaces/User)&gt;
-    if (type.includes('<') && type.includes('[') && type.includes('](')) {
-      // Escape angle brackets that are part of generics containing links
-      return type.replace(/</g, '&lt;').replace(/>/g, '&gt;');
-    }
-    return type;
+    return type
+      .split(/(`[^`]*`|\]\([^)]*\))/)
+      .map((part, index) => {
+        // Odd parts are the code spans and link URLs the split captured
+        if (index % 2 === 1) {
+          return part;
+        }
+        return part
+          .replace(/</g, '&lt;')
+          .replace(/>/g, '&gt;')
+          .replace(/(?<!\\)\{/g, '\\{')
+          .replace(/(?<!\\)\}/g, '\\}');
+      })
+      .join('');
   }
 
   /**
@@ -947,6 +2092,7 @@ description: "${safeDescription}"
       64: 'Function',
       8: 'Enum',
       2097152: 'Type Alias',
+      32: 'Variable',
     };
     return kindMap[kind] || 'Unknown';
   }
@@ -987,22 +2133,17 @@ description: "${safeDescription}"
   }
 
   /**
-   * Render a Table of Contents component
+   * Render a table of contents as a list of links to the page's sections
+   * Mintlify has no TOC component, so this is plain markdown
    */
   private renderToc(items: string[]): string {
-    if (items.length === 0) {
+    if (items.length === 0 || this.inline) {
       return '';
     }
 
     // Generate TOC links - Mintlify uses anchor links based on heading text
-    const tocLinks = items
-      .map((item) => {
-        // Convert section name to anchor (lowercase, replace spaces with hyphens)
-        const anchor = item.toLowerCase().replace(/\s+/g, '-');
-        return `- [${item}](#${anchor})`;
-      })
-      .join('\n');
+    const tocLinks = items.map((item) => `- [${item}](#${getHeadingAnchor(item)})`).join('\n');
 
-    return `<Toc>\n${tocLinks}\n</Toc>\n\n`;
+    return `${tocLinks}\n\n`;
   }
 }
@@ -8,12 +8,36 @@ import type {
 } from 'typedoc';
 import { MintlifyReflectionRenderer } from './reflection-renderer.js';
 import { MintlifyComponents } from './components.js';
-import { formatType } from './utils.js';
+import { LinkResolver, toPagePath } from './link-resolver.js';
+import {
+  compareGroupTitles,
+  extractDescription,
+  formatType,
+  getCategoryOrder,
+  getGroupTitle,
+  getHeadingAnchor,
+  getMemberAnchor,
+  getStatusTag,
+  isReflectionDeprecated,
+} from './utils.js';
+import type { GroupBy } from './utils.js';
 
 const require = createRequire(import.meta.url);
 const markdownPlugin = require('typedoc-plugin-markdown');
 const { MarkdownTheme } = markdownPlugin;
 
+/**
+ * Index page sections in display order, keyed by reflection kind
+ */
+const INDEX_SECTIONS: Array<{ kind: number; title: string }> = [
+  { kind: 8, title: 'Enumerations' }, // Enum
+  { kind: 128, title: 'Classes' }, // Class
+  { kind: 256, title: 'Interfaces' }, // Interface
+  { kind: 2097152, title: 'Type Aliases' }, // Type Alias
+  { kind: 64, title: 'Functions' }, // Function
+  { kind: 32, title: 'Variables' }, // Variable
+];
+
 /**
  * Custom Mintlify theme that extends the markdown theme
  * Generates MDX directly from TypeDoc reflections instead of transforming markdown text
@@ -21,7 +45,7 @@ const { MarkdownTheme } = markdownPlugin;
 export class MintlifyTheme extends MarkdownTheme {
   components: MintlifyComponents;
   reflectionRenderer: MintlifyReflectionRenderer;
-  private typeToUrlMap: Map<string, string> = new Map();
+  private linkResolver: LinkResolver = new LinkResolver();
 
   constructor(renderer: Renderer) {
     super(renderer);
@@ -64,38 +88,27 @@ export class MintlifyTheme extends MarkdownTheme {
     if (model && typeof model === 'object' && 'kind' in model) {
       const reflection = model as Reflection;
       // Use reflection renderer for DeclarationReflection types that should have their own pages
-      if (
-        'kind' in reflection &&
-        (reflection.kind === 128 || // Class
-          reflection.kind === 256 || // Interface
-          reflection.kind === 64 || // Function
-          reflection.kind === 8 || // Enum
-          reflection.kind === 2097152) // Type Alias
-      ) {
-        // Pass the type-to-URL map to the renderer for link generation
-        this.reflectionRenderer.setTypeToUrlMap(this.typeToUrlMap);
+      if (this.usesReflectionRenderer(reflection)) {
+        // Pass the link resolver to the renderer for link generation
+        this.reflectionRenderer.setLinkResolver(this.linkResolver);
+        this.reflectionRenderer.setLogger(this.application.logger);
+        this.reflectionRenderer.setOptions({
+          includeInherited: this.application.options.getValue(
+            'mintlifyIncludeInherited'
+          ) as boolean,
+          expandDepth: this.application.options.getValue('mintlifyExpandDepth') as number,
+          expandReferences: this.application.options.getValue(
+            'mintlifyExpandReferences'
+          ) as boolean,
+          sourceLinks: this.application.options.getValue('mintlifySourceLinks') as boolean,
+        });
         // Set the index page URL for back links
         const entryFileName = this.application.options.getValue('entryFileName') || 'index';
         const fileExtension = this.application.options.getValue('fileExtension') || '.mdx';
         const indexUrl = `api/${entryFileName}${fileExtension}`.replace(/\.mdx$/, '');
         this.reflectionRenderer.setIndexPageUrl(`/${indexUrl}`);
-        // Build the current page URL from the reflection
-        const flattenOutputFiles = this.application.options.getValue(
-          'flattenOutputFiles'
-        ) as boolean;
-        const kindMap: Record<number, string> = {
-          128: 'classes', // Class
-          256: 'interfaces', // Interface
-          64: 'functions', // Function
-          8: 'enums', // Enum
-          2097152: 'type-aliases', // Type Alias
-        };
-        const folder = kindMap[reflection.kind] || 'modules';
-        const fileName = flattenOutputFiles ? reflection.name : `${folder}/${reflection.name}`;
-        const pageUrl = `${fileName}${fileExtension}`.replace(/\.mdx$/, '');
-        // Ensure pageUrl has api/ prefix to match typeToUrlMap format
-        const pageUrlWithApi = pageUrl.startsWith('api/') ? pageUrl : `api/${pageUrl}`;
-        return this.reflectionRenderer.render(reflection, pageUrlWithApi);
+        // Use the URL the page is written to, in the link resolver's page path format
+        return this.reflectionRenderer.render(reflection, toPagePath(page.url));
       }
     }
 
@@ -108,35 +121,17 @@ export class MintlifyTheme extends MarkdownTheme {
     let readmeContent = '';
 
     if (isIndexPage) {
-      // First, get the parent render which may include README content
-      const parentRender = super.render(page, template);
-
-      // Check if parent render includes README content
-      // TypeDoc typically includes README at the beginning of the index page
-      // The README content usually comes before any API documentation sections
-      // Look for common patterns: README content ends before "##" API sections
-      const apiSectionMatch = parentRender.match(
-        /\n## (Classes|Interfaces|Functions|Enumerations|Type Aliases|Modules)/
-      );
-
-      if (apiSectionMatch) {
-        // Split README content from API content
-        const apiSectionIndex = parentRender.indexOf(apiSectionMatch[0]);
-        readmeContent = parentRender.substring(0, apiSectionIndex).trim();
-        // Generate our simplified API overview
-        parentContent = this.generateIndexPageContent(model as ProjectReflection);
-      } else {
-        // No clear API sections, check if there's substantial content
-        // If parent render has content but no API sections, it might be just README
-        if (parentRender.trim().length > 100) {
-          readmeContent = parentRender.trim();
-          // Still generate API overview
-          parentContent = this.generateIndexPageContent(model as ProjectReflection);
-        } else {
-          // No README content, just generate API overview
-          parentContent = this.generateIndexPageContent(model as ProjectReflection);
-        }
+      const project = model as ProjectReflection;
+      // The README page, or the project page when mergeReadme folds the README into it, starts
+      // with the README; the rest of the page is generated from the reflections
+      const includesReadme =
+        template === this.readmeTemplate ||
+        (this.application.options.getValue('mergeReadme') as boolean);
+      if (project.readme && includesReadme) {
+        const context = super.getRenderContext(page);
+        readmeContent = context.helpers.getCommentParts(project.readme).trim();
       }
+      parentContent = this.generateIndexPageContent(project);
     } else {
       parentContent = super.render(page, template);
     }
@@ -197,16 +192,19 @@ description: "${description.replace(/"/g, '\\"').replace(/\n/g, ' ').trim()}"
       if (parentContent.includes('## Functions')) {
         tocItems.push('Functions');
       }
+      if (parentContent.includes('## Variables')) {
+        tocItems.push('Variables');
+      }
 
       let toc = '';
       if (tocItems.length > 0) {
         const tocLinks = tocItems
           .map((item) => {
-            const anchor = item.toLowerCase().replace(/\s+/g, '-');
-            return `- [${item}](#${anchor})`;
+            return `- [${item}](#${getHeadingAnchor(item)})`;
           })
           .join('\n');
-        toc = `<Toc>\n${tocLinks}\n</Toc>\n\n`;
+        // Plain markdown links; Mintlify has no TOC component
+        toc = `${tocLinks}\n\n`;
       }
 
       // Combine README content and API overview
@@ -418,19 +416,13 @@ description: "${description.replace(/"/g, '\\"').replace(/\n/g, ' ').trim()}"
       urls.unshift({ url: indexUrl, model: projectReflection });
     }
 
-    // If outputFileStrategy is "members" but no individual pages were generated,
-    // we need to generate them ourselves
+    // If outputFileStrategy is "members", every reflection listed in membersWithOwnFile needs
+    // its own page. typedoc-plugin-markdown normally renders them; any it left without a page
+    // are added here, checked against the real URLs so no page is ever written twice
     if (outputFileStrategy === 'members' && Array.isArray(urls)) {
-      const hasIndividualPages = urls.some(
-        (url) =>
-          url.url !== 'index.mdx' &&
-          (url.url.includes('classes/') ||
-            url.url.includes('interfaces/') ||
-            url.url.includes('functions/') ||
-            url.url.includes('enums/'))
-      );
-
-      if (!hasIndividualPages && project && typeof project === 'object' && 'kind' in project) {
+      const renderedReflections = new Set(urls.map((mapping) => mapping.model));
+
+      if (project && typeof project === 'object' && 'kind' in project) {
         const projectReflection = project as ProjectReflection;
 
         // Generate URLs for individual pages based on membersWithOwnFile
@@ -447,12 +439,28 @@ description: "${description.replace(/"/g, '\\"').replace(/\n/g, ' ').trim()}"
             64: 'functions', // Function
             8: 'enums', // Enum
             2097152: 'type-aliases', // Type Alias
+            32: 'variables', // Variable
+            4: 'namespaces', // Namespace
           };
 
           const folder = kindMap[reflection.kind] || 'modules';
           const fileName = flattenOutputFiles ? reflection.name : `${folder}/${reflection.name}`;
-          return `${fileName}${fileExtension}`;
+          let url = `${fileName}${fileExtension}`;
+          // Same-named symbols from different modules are told apart by their qualified name.
+          // Anything still colliding gets a counter in project order, never the reflection id,
+          // so URLs stay the same from build to build
+          if (usedUrls.has(url.toLowerCase())) {
+            const qualifiedName = reflection.getFullName().replace(/[^\w-]+/g, '-');
+            url = `${flattenOutputFiles ? qualifiedName : `${folder}/${qualifiedName}`}${fileExtension}`;
+          }
+          const baseUrl = url.slice(0, -fileExtension.length);
+          for (let counter = 2; usedUrls.has(url.toLowerCase()); counter++) {
+            url = `${baseUrl}-${counter}${fileExtension}`;
+          }
+          usedUrls.add(url.toLowerCase());
+          return url;
         };
+        const usedUrls = new Set(urls.map((mapping) => mapping.url.toLowerCase()));
 
         // Find all reflections that should have their own files
         const reflectionsToDocument: DeclarationReflection[] = [];
@@ -473,6 +481,12 @@ description: "${description.replace(/"/g, '\\"').replace(/\n/g, ' ').trim()}"
           } else if (reflection.kind === 2097152 && membersWithOwnFile?.includes('TypeAlias')) {
             // Type Alias
             reflectionsToDocument.push(reflection as DeclarationReflection);
+          } else if (reflection.kind === 32 && membersWithOwnFile?.includes('Variable')) {
+            // Variable
+            reflectionsToDocument.push(reflection as DeclarationReflection);
+          } else if (reflection.kind === 2 || reflection.kind === 4) {
+            // Module or Namespace - always get their own page, like typedoc-plugin-markdown
+            reflectionsToDocument.push(reflection as DeclarationReflection);
           }
 
           // Visit children
@@ -490,14 +504,14 @@ description: "${description.replace(/"/g, '\\"').replace(/\n/g, ' ').trim()}"
           projectReflection.children.forEach((child) => visitReflection(child));
         }
 
-        // Add URLs for individual pages and build type-to-URL map
-        reflectionsToDocument.forEach((reflection) => {
+        // Add URLs for individual pages and register them for link generation
+        const missingReflections = reflectionsToDocument.filter(
+          (reflection) => !renderedReflections.has(reflection)
+        );
+        missingReflections.forEach((reflection) => {
           const url = getUrlForReflection(reflection);
           urls.push({ url, model: reflection });
-          // Store mapping from type name to URL for link generation
-          const cleanUrl = url.replace(/\.mdx$/, '');
-          const urlWithApi = cleanUrl.startsWith('api/') ? cleanUrl : `api/${cleanUrl}`;
-          this.typeToUrlMap.set(reflection.name, urlWithApi);
+          this.linkResolver.register(reflection, url);
         });
 
         // Ensure index page exists when individual pages are generated
@@ -517,32 +531,79 @@ description: "${description.replace(/"/g, '\\"').replace(/\n/g, ' ').trim()}"
       }
     }
 
+    this.registerLinks(project as ProjectReflection, urls);
+
     return urls;
   }
 
+  /**
+   * Whether a page is generated by the reflection renderer rather than typedoc-plugin-markdown
+   */
+  private usesReflectionRenderer(reflection: Reflection): boolean {
+    return (
+      reflection.kind === 128 || // Class
+      reflection.kind === 256 || // Interface
+      reflection.kind === 64 || // Function
+      reflection.kind === 8 || // Enum
+      reflection.kind === 2097152 || // Type Alias
+      reflection.kind === 32 || // Variable
+      reflection.kind === 2 || // Module
+      reflection.kind === 4 // Namespace
+    );
+  }
+
+  /**
+   * Register every rendered page, and the anchors of members documented on those pages,
+   * with the link resolver
+   * Built from the final URL list so links work with every output file strategy
+   */
+  private registerLinks(
+    project: ProjectReflection,
+    urls: Array<{ url: string; model: Reflection }>
+  ): void {
+    this.linkResolver.clear();
+    this.linkResolver.setIncludeInherited(
+      this.application.options.getValue('mintlifyIncludeInherited') as boolean
+    );
+
+    const rendererPages = new Set<string>();
+    for (const mapping of urls) {
+      this.linkResolver.register(mapping.model, mapping.url);
+      if (this.usesReflectionRenderer(mapping.model)) {
+        rendererPages.add(mapping.url);
+      }
+    }
+
+    // typedoc-plugin-markdown assigns `page#anchor` URLs to members without their own page.
+    // Pages from the reflection renderer emit their own anchors (see getMemberAnchor), which
+    // the link resolver falls back to
+    for (const reflection of Object.values(project.reflections || {})) {
+      const url = reflection.url || '';
+      if (url.includes('#') && !rendererPages.has(url.split('#')[0])) {
+        this.linkResolver.registerAnchor(reflection, url);
+      }
+    }
+  }
+
   /**
    * Add links to type references in the index page content
    */
   private addTypeLinksToIndexPage(content: string): string {
-    if (this.typeToUrlMap.size === 0) {
+    // Only names that identify a single page can be linked from plain text
+    const uniqueNames = this.linkResolver.getUniqueNames();
+    if (uniqueNames.size === 0) {
       return content;
     }
 
     // Build a regex pattern for all known types
-    const typeNames = Array.from(this.typeToUrlMap.keys()).sort((a, b) => b.length - a.length); // Sort by length descending to match longer names first
+    const typeNames = Array.from(uniqueNames.keys()).sort((a, b) => b.length - a.length); // Sort by length descending to match longer names first
 
     // Transform type references in various contexts
     let result = content;
 
     for (const typeName of typeNames) {
-      const url = this.typeToUrlMap.get(typeName)!;
-      // Use absolute path from docs root for Mintlify routing
-      // Format: /api/classes/UserService (absolute path with leading slash)
-      // Files are in the api/ directory, so we need to prepend /api/
-      const cleanUrl = url.replace(/\.mdx$/, ''); // Remove .mdx extension
-      // Ensure the URL includes the api/ prefix for Mintlify routing
-      const urlWithApi = cleanUrl.startsWith('api/') ? cleanUrl : `api/${cleanUrl}`;
-      const absoluteUrl = `/${urlWithApi}`;
+      // Absolute path from docs root for Mintlify routing, e.g. /api/classes/UserService
+      const absoluteUrl = uniqueNames.get(typeName)!;
 
       // Pattern 1: Type in backticks (code): `TypeName` -> `[TypeName](../path/to/TypeName)`
       // But we need to be careful not to break code blocks (```...```)
@@ -719,8 +780,7 @@ description: "${description.replace(/"/g, '\\"').replace(/\n/g, ' ').trim()}"
 
         const name = line.replace(/^### /, '').trim();
         // Try to find link to individual page
-        const link = this.typeToUrlMap.get(name);
-        const linkUrl = link ? `/${link}` : undefined;
+        const linkUrl = this.linkResolver.resolveName(name);
 
         currentItem = { name, description: '', link: linkUrl };
         inDetailedSection = false;
@@ -789,34 +849,15 @@ description: "${description.replace(/"/g, '\\"').replace(/\n/g, ' ').trim()}"
    * Shows one-line entries with signatures for functions and brief descriptions
    */
   private generateIndexPageContent(project: ProjectReflection): string {
-    const sections: Array<{
-      title: string;
-      items: Array<{ line: string }>;
-    }> = [];
-
-    // Group reflections by kind
-    const classes: DeclarationReflection[] = [];
-    const interfaces: DeclarationReflection[] = [];
-    const functions: DeclarationReflection[] = [];
-    const enums: DeclarationReflection[] = [];
-    const typeAliases: DeclarationReflection[] = [];
+    const groupBy = (this.application.options.getValue('mintlifyGroupBy') as GroupBy) || 'kind';
+    const nestKindGroups = this.application.options.getValue('mintlifyNestKindGroups') as boolean;
+
+    // Collect documented reflections in project order
+    const reflections: DeclarationReflection[] = [];
 
     const visitReflection = (reflection: Reflection) => {
-      if (reflection.kind === 128) {
-        // Class
-        classes.push(reflection as DeclarationReflection);
-      } else if (reflection.kind === 256) {
-        // Interface
-        interfaces.push(reflection as DeclarationReflection);
-      } else if (reflection.kind === 64) {
-        // Function
-        functions.push(reflection as DeclarationReflection);
-      } else if (reflection.kind === 8) {
-        // Enum
-        enums.push(reflection as DeclarationReflection);
-      } else if (reflection.kind === 2097152) {
-        // Type Alias
-        typeAliases.push(reflection as DeclarationReflection);
+      if (INDEX_SECTIONS.some((section) => section.kind === reflection.kind)) {
+        reflections.push(reflection as DeclarationReflection);
       }
 
       if ('children' in reflection && reflection.children && Array.isArray(reflection.children)) {
@@ -828,65 +869,48 @@ description: "${description.replace(/"/g, '\\"').replace(/\n/g, ' ').trim()}"
       project.children.forEach((child) => visitReflection(child));
     }
 
-    // Build sections with one-line entries
-    if (enums.length > 0) {
-      const items = enums.map((enumRef) => {
-        const link = this.getLinkForReflection(enumRef);
-        const description = this.extractDescription(enumRef);
-        const summary = description ? ` — ${description}` : '';
-        return { line: `- [${enumRef.name}](${link})${summary}` };
-      });
-      sections.push({ title: 'Enumerations', items });
-    }
+    const sections: Array<{ title: string; content: string }> = [];
 
-    if (classes.length > 0) {
-      const items = classes.map((classRef) => {
-        const link = this.getLinkForReflection(classRef);
-        const description = this.extractDescription(classRef);
-        const summary = description ? ` — ${description}` : '';
-        return { line: `- [${classRef.name}](${link})${summary}` };
-      });
-      sections.push({ title: 'Classes', items });
-    }
-
-    if (interfaces.length > 0) {
-      const items = interfaces.map((interfaceRef) => {
-        const link = this.getLinkForReflection(interfaceRef);
-        const description = this.extractDescription(interfaceRef);
-        const summary = description ? ` — ${description}` : '';
-        return { line: `- [${interfaceRef.name}](${link})${summary}` };
-      });
-      sections.push({ title: 'Interfaces', items });
-    }
-
-    if (typeAliases.length > 0) {
-      const items = typeAliases.map((typeRef) => {
-        const link = this.getLinkForReflection(typeRef);
-        const description = this.extractDescription(typeRef);
-        const typeStr = this.formatTypeAliasForIndex(typeRef);
-        const summary = description ? ` — ${description}` : '';
-        // Wrap type in backticks to prevent MDX from parsing curly braces as JSX
-        return { line: `- [${typeRef.name}](${link}): \`${typeStr}\`${summary}` };
-      });
-      sections.push({ title: 'Type Aliases', items });
-    }
+    if (groupBy === 'kind') {
+      for (const { kind, title } of INDEX_SECTIONS) {
+        const lines = reflections
+          .filter((reflection) => reflection.kind === kind)
+          .map((reflection) => this.formatIndexLine(reflection));
+        if (lines.length > 0) {
+          sections.push({ title, content: lines.join('\n') });
+        }
+      }
+    } else {
+      // Sections are ordered like the sidebar, see MintlifyNavigation.buildNavigation
+      const grouped = new Map<string, DeclarationReflection[]>();
+      for (const reflection of reflections) {
+        const title = getGroupTitle(reflection, groupBy);
+        if (!grouped.has(title)) {
+          grouped.set(title, []);
+        }
+        grouped.get(title)!.push(reflection);
+      }
+      const order = groupBy === 'category' ? getCategoryOrder(this.application.options) : undefined;
+      const sortedGroups = [...grouped].sort(([a], [b]) => compareGroupTitles(a, b, order));
 
-    if (functions.length > 0) {
-      const items = functions.map((funcRef) => {
-        const link = this.getLinkForReflection(funcRef);
-        const signature = this.formatFunctionSignatureForIndex(funcRef);
-        const description = this.extractDescription(funcRef);
-        const summary = description ? ` — ${description}` : '';
-        // Extract function name and parameters/return type separately
-        // Format as: [functionName](link) `(params): returnType` — description
-        const nameMatch = signature.match(/^([^(]+)\(/);
-        const funcName = nameMatch ? nameMatch[1] : funcRef.name;
-        const sigPart = signature.substring(funcName.length);
-        // Wrap signature part in backticks to prevent MDX parsing issues with angle brackets
-        // Use template literal with backticks properly escaped
-        return { line: `- [${funcName}](${link}) \`${sigPart}\`${summary}` };
-      });
-      sections.push({ title: 'Functions', items });
+      for (const [title, members] of sortedGroups) {
+        if (nestKindGroups) {
+          // Bold sub-headings keep the accordion content within Mintlify's heading limit
+          const subsections = INDEX_SECTIONS.map((section) => ({
+            title: section.title,
+            lines: members
+              .filter((reflection) => reflection.kind === section.kind)
+              .map((reflection) => this.formatIndexLine(reflection)),
+          })).filter((subsection) => subsection.lines.length > 0);
+          const content = subsections
+            .map((subsection) => `**${subsection.title}**\n\n${subsection.lines.join('\n')}`)
+            .join('\n\n');
+          sections.push({ title, content });
+        } else {
+          const lines = members.map((reflection) => this.formatIndexLine(reflection));
+          sections.push({ title, content: lines.join('\n') });
+        }
+      }
     }
 
     // Generate markdown content with simplified structure (H2 for sections, list items)
@@ -896,69 +920,71 @@ description: "${description.replace(/"/g, '\\"').replace(/\n/g, ' ').trim()}"
 
     if (sections.length > 1) {
       // Use AccordionGroup for multiple sections
-      const accordions = sections.map((section) => {
-        const sectionContent = section.items.map((item) => item.line).join('\n');
-        return {
-          title: section.title,
-          content: sectionContent,
-        };
-      });
-      return `${this.components.accordionGroup(accordions)}\n\n`;
+      return `${this.components.accordionGroup(sections)}\n\n`;
     } else {
       // Single section, no need for accordion
-      let content = `## ${sections[0].title}\n\n`;
-      content += sections[0].items.map((item) => item.line).join('\n');
-      content += '\n\n';
-      return content;
+      return `## ${sections[0].title}\n\n${sections[0].content}\n\n`;
     }
   }
 
   /**
-   * Get link for a reflection - either to its own page or to parent with anchor
+   * Format a one-line index page entry for a reflection
    */
-  private getLinkForReflection(reflection: DeclarationReflection): string {
-    // Check if this reflection has its own page
-    const url = this.typeToUrlMap.get(reflection.name);
-    if (url) {
-      return `/${url}`;
+  private formatIndexLine(reflection: DeclarationReflection): string {
+    const link = this.getLinkForReflection(reflection);
+    const description = extractDescription(reflection);
+    // Deprecated entries are struck through; any status is shown as a badge before the summary
+    const status = getStatusTag(reflection);
+    const deprecated = isReflectionDeprecated(reflection);
+    const formatLink = (text: string) =>
+      deprecated ? `~~[${text}](${link})~~` : `[${text}](${link})`;
+    const summary = `${status ? ` \`${status}\`` : ''}${description ? ` — ${description}` : ''}`;
+
+    if (reflection.kind === 2097152 || reflection.kind === 32) {
+      // Type Alias or Variable
+      const typeStr = this.formatTypeForIndex(reflection);
+      // Wrap type in backticks to prevent MDX from parsing curly braces as JSX
+      return `- ${formatLink(reflection.name)}: \`${typeStr}\`${summary}`;
     }
 
-    // If no individual page, find parent and create anchor link
-    const parent = this.findParentReflection(reflection);
-    if (parent) {
-      const parentUrl = this.typeToUrlMap.get(parent.name);
-      if (parentUrl) {
-        // Generate anchor from reflection name (lowercase, replace special chars)
-        const anchor = reflection.name.toLowerCase().replace(/[^a-z0-9]+/g, '-');
-        return `/${parentUrl}#${anchor}`;
-      }
+    if (reflection.kind === 64) {
+      // Function
+      const signature = this.formatFunctionSignatureForIndex(reflection);
+      // Extract function name and parameters/return type separately
+      // Format as: [functionName](link) `(params): returnType` — description
+      const nameMatch = signature.match(/^([^(]+)\(/);
+      const funcName = nameMatch ? nameMatch[1] : reflection.name;
+      const sigPart = signature.substring(funcName.length);
+      // Indicate additional overloads, which are listed on the function's own page
+      const overloadCount = (reflection.signatures?.length || 1) - 1;
+      const overloads =
+        overloadCount > 0 ? ` _(+${overloadCount} overload${overloadCount > 1 ? 's' : ''})_` : '';
+      // Wrap signature part in backticks to prevent MDX parsing issues with angle brackets
+      return `- ${formatLink(funcName)} \`${sigPart}\`${overloads}${summary}`;
     }
 
-    // Fallback to hash anchor
-    return `#${reflection.name.toLowerCase()}`;
+    return `- ${formatLink(reflection.name)}${summary}`;
   }
 
   /**
-   * Find the parent module or class for a reflection
+   * Get link for a reflection - either to its own page or to parent with anchor
    */
-  private findParentReflection(reflection: DeclarationReflection): DeclarationReflection | null {
-    // Walk up the parent chain to find a module or class
-    let current: Reflection | undefined = reflection.parent;
-    while (current) {
-      if (current.kind === 2 || current.kind === 128) {
-        // Module or Class
-        return current as DeclarationReflection;
-      }
-      current = current.parent;
+  private getLinkForReflection(reflection: DeclarationReflection): string {
+    // Own page, or an anchor on the page of the nearest documented parent
+    const url = this.linkResolver.resolve(reflection);
+    if (url) {
+      return url;
     }
-    return null;
+
+    // Fallback to hash anchor
+    return `#${getMemberAnchor(reflection)}`;
   }
 
   /**
    * Format function signature for index page (one line with links)
    */
   private formatFunctionSignatureForIndex(funcRef: DeclarationReflection): string {
-    // Get the first signature (functions typically have one)
+    // Show the first signature; the overload count is added by the caller
     const signature = funcRef.signatures?.[0];
     if (!signature) {
       return funcRef.name;
@@ -968,14 +994,14 @@ description: "${description.replace(/"/g, '\\"').replace(/\n/g, ' ').trim()}"
     const paramList = params
       .map((p) => {
         const optional = p.flags.isOptional ? '?' : '';
-        const typeStr = formatType(p.type, this.typeToUrlMap);
+        const typeStr = formatType(p.type, this.linkResolver);
         // Extract plain type name for display (links will be in the full signature)
         const plainType = typeStr.replace(/\[([^\]]+)\]\([^)]+\)/g, '$1');
         return `${p.name}${optional}: ${plainType}`;
       })
       .join(', ');
 
-    const returnType = signature.type ? formatType(signature.type, this.typeToUrlMap) : 'void';
+    const returnType = signature.type ? formatType(signature.type, this.linkResolver) : 'void';
     // Extract plain type name for display
     const plainReturnType = returnType.replace(/\[([^\]]+)\]\([^)]+\)/g, '$1');
 
@@ -983,46 +1009,17 @@ description: "${description.replace(/"/g, '\\"').replace(/\n/g, ' ').trim()}"
   }
 
   /**
-   * Format type alias for index page
+   * Format the type of a type alias or variable for index page
    */
-  private formatTypeAliasForIndex(typeRef: DeclarationReflection): string {
+  private formatTypeForIndex(typeRef: DeclarationReflection): string {
     if (!typeRef.type) {
       return 'any';
     }
-    const typeStr = formatType(typeRef.type, this.typeToUrlMap);
+    const typeStr = formatType(typeRef.type, this.linkResolver);
     // Extract plain type name for display (links will be clickable in the link itself)
     return typeStr.replace(/\[([^\]]+)\]\([^)]+\)/g, '$1');
   }
 
-  /**
-   * Extract description from a reflection
-   * For functions, check signature comments first, then reflection comment
-   */
-  private extractDescription(reflection: DeclarationReflection): string {
-    // For functions, check signature comment first
-    if (reflection.kind === 64 && reflection.signatures?.[0]?.comment?.summary) {
-      const summary = reflection.signatures[0].comment.summary
-        .map((part) => part.text || '')
-        .join('')
-        .trim();
-      if (summary) {
-        return summary;
-      }
-    }
-
-    // Fall back to reflection comment
-    if (reflection.comment?.summary) {
-      const summary = reflection.comment.summary
-        .map((part) => part.text || '')
-        .join('')
-        .trim();
-      if (summary) {
-        return summary;
-      }
-    }
-    return '';
-  }
-
   /**
    * Flatten heading hierarchy to follow Mintlify's 4-level limit (H1-H4 only)
    * Converts H5 and H6 headings to bold text
@@ -16,7 +16,13 @@ import type {
   DeclarationReflection,
   ParameterReflection,
   SignatureReflection,
+  ContainerReflection,
+  Comment,
+  Options,
 } from 'typedoc';
+// TypeDoc's own TypeScript instance; the plugin doesn't depend on typescript itself
+import { TypeScript as ts } from 'typedoc';
+import type { LinkResolver } from './link-resolver.js';
 
 /**
  * Utility functions for Mintlify markdown generation
@@ -43,7 +49,7 @@ export function sanitizeAttribute(text: string): string {
   }
 
   return text
-    .replace(/"/g, '\\"')
+    .replace(/"/g, '&quot;')
     .replace(/\n/g, ' ')
     .replace(/\r/g, '')
     .replace(/</g, '&lt;')
@@ -95,15 +101,119 @@ export function slugify(text: string): string {
     .replace(/^-+|-+$/g, '');
 }
 
+/**
+ * Extract description from a reflection
+ * For functions, check signature comments first, then reflection comment
+ */
+export function extractDescription(reflection: DeclarationReflection): string {
+  // For functions, check signature comment first
+  if (reflection.kind === 64 && reflection.signatures?.[0]?.comment?.summary) {
+    const summary = reflection.signatures[0].comment.summary
+      .map((part) => part.text || '')
+      .join('')
+      .trim();
+    if (summary) {
+      return summary;
+    }
+  }
+
+  // Fall back to reflection comment
+  if (reflection.comment?.summary) {
+    const summary = reflection.comment.summary
+      .map((part) => part.text || '')
+      .join('')
+      .trim();
+    if (summary) {
+      return summary;
+    }
+  }
+  return '';
+}
+
+/**
+ * Get the id Mintlify gives a heading, the way GitHub slugs headings
+ * Unlike `slugify`, punctuation is dropped rather than replaced and underscores are kept
+ */
+export function getHeadingAnchor(text: string): string {
+  return text
+    .trim()
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s_-]/gu, '')
+    .replace(/\s/g, '-');
+}
+
+/**
+ * Get the anchor a member is rendered at on its page, e.g. `member-userservice-getuser`
+ * The `member-` prefix keeps member anchors apart from section heading ids like `methods`,
+ * and the owners up to the enclosing module keep them unique on pages that document several
+ * classes. Static members get a `static-` prefix so they never collide with an instance member
+ * of the same name
+ */
+export function getMemberAnchor(reflection: Reflection): string {
+  const path: string[] = [];
+  let current: Reflection | undefined = reflection;
+  // Stop at the project, module or namespace that owns the member
+  while (current && ![1, 2, 4].includes(current.kind)) {
+    const slug = slugify(current.name) || 'member';
+    path.unshift(current.flags.isStatic ? `static-${slug}` : slug);
+    current = current.parent;
+  }
+  return `member-${path.join('-')}`;
+}
+
+/**
+ * Get the plain-text signature line for a call or constructor signature,
+ * e.g. `getUser(userId: string): Promise<User>` or `new UserService(apiKey: string)`
+ */
+export function getSignatureText(
+  name: string,
+  signature: SignatureReflection,
+  isConstructor: boolean = false
+): string {
+  const paramList = (signature.parameters || [])
+    .map((p) => `${p.name}${p.flags.isOptional ? '?' : ''}: ${formatType(p.type)}`)
+    .join(', ');
+
+  if (isConstructor) {
+    return `new ${name}(${paramList})`;
+  }
+
+  const typeParameters = signature.typeParameters || [];
+  const typeParams =
+    typeParameters.length > 0 ? `<${typeParameters.map((param) => param.name).join(', ')}>` : '';
+  const returnType = signature.type ? formatType(signature.type) : 'void';
+  return `${name}${typeParams}(${paramList}): ${returnType}`;
+}
+
+/**
+ * Split a generated page into its frontmatter fields and body
+ * Only the quoted `key: "value"` fields the theme writes are read
+ */
+export function parseFrontmatter(content: string): {
+  fields: Record<string, string>;
+  body: string;
+} {
+  const frontmatter = content.match(/^---\n([\s\S]*?)\n---\n/);
+  if (!frontmatter) {
+    return { fields: {}, body: content };
+  }
+
+  const fields: Record<string, string> = {};
+  for (const match of frontmatter[1].matchAll(/^(\w+): "(.*)"$/gm)) {
+    fields[match[1]] = match[2].replace(/\\"/g, '"');
+  }
+  return { fields, body: content.slice(frontmatter[0].length) };
+}
+
 /**
  * Formats a TypeDoc type for display in Mintlify
  * @param type The type to format
- * @param typeToUrlMap Optional map of type names to URLs for generating links
+ * @param linkResolver Optional resolver used to link references to their pages
  * @param currentPageUrl Optional current page URL for generating relative links
  */
 export function formatType(
   type: Type | string | null | undefined,
-  typeToUrlMap?: Map<string, string>,
+  linkResolver?: LinkResolver,
   currentPageUrl?: string
 ): string {
   if (!type) {
@@ -122,14 +232,9 @@ export function formatType(
     const ref = type as ReferenceType;
     let typeName = ref.name;
 
-    // Check if this type has a generated page and should be linked
-    if (typeToUrlMap && typeToUrlMap.has(typeName)) {
-      const targetUrl = typeToUrlMap.get(typeName)!;
-      // Use absolute paths for Mintlify (starting with /)
-      // Remove .mdx extension if present and ensure leading slash
-      const cleanUrl = targetUrl.replace(/\.mdx$/, '');
-      const absoluteUrl = cleanUrl.startsWith('/') ? cleanUrl : `/${cleanUrl}`;
-
+    // Link the type when the reflection it references has a generated page
+    const absoluteUrl = linkResolver?.resolveReference(ref);
+    if (absoluteUrl) {
       // Wrap in link, preserving the type name
       typeName = `[${typeName}](${absoluteUrl})`;
     }
@@ -139,7 +244,7 @@ export function formatType(
     // Handle generics
     if (ref.typeArguments && ref.typeArguments.length > 0) {
       const args = ref.typeArguments
-        .map((t) => formatType(t, typeToUrlMap, currentPageUrl))
+        .map((t) => formatType(t, linkResolver, currentPageUrl))
         .join(', ');
       result += `<${args}>`;
     }
@@ -148,18 +253,18 @@ export function formatType(
   }
 
   if (type.type === 'array') {
-    return `${formatType((type as ArrayType).elementType, typeToUrlMap, currentPageUrl)}[]`;
+    return `${formatType((type as ArrayType).elementType, linkResolver, currentPageUrl)}[]`;
   }
 
   if (type.type === 'union') {
     return (type as UnionType).types
-      .map((t) => formatType(t, typeToUrlMap, currentPageUrl))
+      .map((t) => formatType(t, linkResolver, currentPageUrl))
       .join(' | ');
   }
 
   if (type.type === 'intersection') {
     return (type as IntersectionType).types
-      .map((t) => formatType(t, typeToUrlMap, currentPageUrl))
+      .map((t) => formatType(t, linkResolver, currentPageUrl))
       .join(' & ');
   }
 
@@ -170,7 +275,7 @@ export function formatType(
   if (type.type === 'tuple') {
     const tuple = type as TupleType;
     const elements = tuple.elements
-      .map((t) => formatType(t, typeToUrlMap, currentPageUrl))
+      .map((t) => formatType(t, linkResolver, currentPageUrl))
       .join(', ');
     return `[${elements}]`;
   }
@@ -186,10 +291,10 @@ export function formatType(
         const params = (sig.parameters || [])
           .map((p: ParameterReflection) => {
             const optional = p.flags?.isOptional ? '?' : '';
-            return `${p.name}${optional}: ${formatType(p.type, typeToUrlMap, currentPageUrl)}`;
+            return `${p.name}${optional}: ${formatType(p.type, linkResolver, currentPageUrl)}`;
           })
           .join(', ');
-        const returnType = formatType(sig.type, typeToUrlMap, currentPageUrl);
+        const returnType = formatType(sig.type, linkResolver, currentPageUrl);
         return `(${params}) => ${returnType}`;
       }
       // If it has properties, format as object type
@@ -197,7 +302,7 @@ export function formatType(
         const props = reflection.children
           .map((child: DeclarationReflection) => {
             const optional = child.flags?.isOptional ? '?' : '';
-            return `${child.name}${optional}: ${formatType(child.type, typeToUrlMap, currentPageUrl)}`;
+            return `${child.name}${optional}: ${formatType(child.type, linkResolver, currentPageUrl)}`;
           })
           .join('; ');
         return `{ ${props} }`;
@@ -208,17 +313,17 @@ export function formatType(
 
   if (type.type === 'conditional') {
     const conditional = type as ConditionalType;
-    const checkType = formatType(conditional.checkType, typeToUrlMap, currentPageUrl);
-    const extendsType = formatType(conditional.extendsType, typeToUrlMap, currentPageUrl);
-    const trueType = formatType(conditional.trueType, typeToUrlMap, currentPageUrl);
-    const falseType = formatType(conditional.falseType, typeToUrlMap, currentPageUrl);
+    const checkType = formatType(conditional.checkType, linkResolver, currentPageUrl);
+    const extendsType = formatType(conditional.extendsType, linkResolver, currentPageUrl);
+    const trueType = formatType(conditional.trueType, linkResolver, currentPageUrl);
+    const falseType = formatType(conditional.falseType, linkResolver, currentPageUrl);
     return `${checkType} extends ${extendsType} ? ${trueType} : ${falseType}`;
   }
 
   if (type.type === 'indexedAccess') {
     const indexed = type as IndexedAccessType;
-    const objectType = formatType(indexed.objectType, typeToUrlMap, currentPageUrl);
-    const indexType = formatType(indexed.indexType, typeToUrlMap, currentPageUrl);
+    const objectType = formatType(indexed.objectType, linkResolver, currentPageUrl);
+    const indexType = formatType(indexed.indexType, linkResolver, currentPageUrl);
     return `${objectType}[${indexType}]`;
   }
 
@@ -230,7 +335,7 @@ export function formatType(
   if (type.type === 'predicate') {
     const predicate = type as PredicateType;
     const name = predicate.name || 'this';
-    const typeStr = formatType(predicate.type, typeToUrlMap, currentPageUrl);
+    const typeStr = formatType(predicate.type, linkResolver, currentPageUrl);
     return `${name} is ${typeStr}`;
   }
 
@@ -306,6 +411,7 @@ export function getIconForKind(kind: number): string {
     128: 'cube', // Class
     256: 'shapes', // Interface
     2097152: 'tag', // Type Alias
+    32: 'box', // Variable
   };
 
   return iconMap[kind] || 'file';
@@ -328,6 +434,238 @@ export function groupByKind(reflections: Reflection[]): Record<string, Reflectio
   return groups;
 }
 
+/**
+ * How reflections are grouped in the sidebar and on the index page
+ */
+export type GroupBy = 'kind' | 'category' | 'module';
+
+/**
+ * Group titles TypeDoc assigns by default, one per reflection kind
+ */
+const DEFAULT_GROUP_TITLES = new Set([
+  'Modules',
+  'Namespaces',
+  'Enumerations',
+  'Enumeration Members',
+  'Variables',
+  'Functions',
+  'Classes',
+  'Interfaces',
+  'Constructors',
+  'Properties',
+  'Methods',
+  'Accessors',
+  'Type Aliases',
+  'References',
+]);
+
+/**
+ * Finds the `@category` (or custom `@group`) title TypeDoc assigned to a reflection
+ * TypeDoc strips these tags from comments while categorizing, so the title is read from the
+ * parent container's groups and categories instead
+ */
+export function getCategoryTitle(reflection: Reflection): string | undefined {
+  const parent = reflection.parent as ContainerReflection | undefined;
+  if (!parent) {
+    return undefined;
+  }
+
+  const categories = [
+    ...(parent.categories || []),
+    ...(parent.groups || []).flatMap((group) => group.categories || []),
+  ];
+  const category = categories.find((cat) =>
+    cat.children.includes(reflection as DeclarationReflection)
+  );
+  if (category) {
+    return category.title;
+  }
+
+  const group = (parent.groups || []).find((grp) =>
+    grp.children.includes(reflection as DeclarationReflection)
+  );
+  return group && !DEFAULT_GROUP_TITLES.has(group.title) ? group.title : undefined;
+}
+
+/**
+ * Finds the qualified name of the nearest module or namespace containing a reflection
+ * Modules and namespaces belong to their own group, so their page heads it. Qualified names
+ * keep same-named namespaces in different modules apart.
+ */
+export function getModuleTitle(reflection: Reflection): string | undefined {
+  let current: Reflection | undefined =
+    reflection.kind === 2 || reflection.kind === 4 ? reflection : reflection.parent;
+  while (current) {
+    if (current.kind === 2 || current.kind === 4) {
+      // Module or Namespace
+      return current.getFullName();
+    }
+    current = current.parent;
+  }
+  return undefined;
+}
+
+/**
+ * Section title for reflections without a category or module
+ */
+export const OTHER_GROUP_TITLE = 'Other';
+
+/**
+ * Gets the section title a reflection is listed under for the given grouping mode
+ * Kind grouping is handled by callers since each has its own section labels
+ */
+export function getGroupTitle(reflection: Reflection, groupBy: GroupBy): string {
+  if (groupBy === 'category') {
+    return getCategoryTitle(reflection) || OTHER_GROUP_TITLE;
+  }
+  if (groupBy === 'module') {
+    return getModuleTitle(reflection) || OTHER_GROUP_TITLE;
+  }
+  return getKindLabel(reflection.kind);
+}
+
+/**
+ * Gets the order category sections are sorted in: TypeDoc's `categoryOrder`, or its
+ * `groupOrder` when only groups are ordered
+ */
+export function getCategoryOrder(options: Options): string[] {
+  const categoryOrder = (options.getValue('categoryOrder') as string[]) || [];
+  return categoryOrder.length > 0
+    ? categoryOrder
+    : (options.getValue('groupOrder') as string[]) || [];
+}
+
+/**
+ * Compares two section titles for sorting
+ * With an `order` (see getCategoryOrder), titles are sorted like TypeDoc sorts categories:
+ * listed titles in that order, unlisted ones alphabetically at the `*` wildcard or after the
+ * listed ones. Without one, sections keep their order. "Other" comes last unless it is listed.
+ */
+export function compareGroupTitles(a: string, b: string, order?: string[]): number {
+  if (a === b) {
+    return 0;
+  }
+  if (!order?.includes(OTHER_GROUP_TITLE)) {
+    if (a === OTHER_GROUP_TITLE) {
+      return 1;
+    }
+    if (b === OTHER_GROUP_TITLE) {
+      return -1;
+    }
+  }
+  if (!order) {
+    return 0;
+  }
+
+  const wildcard = order.includes('*') ? order.indexOf('*') : order.length;
+  const weight = (title: string) => (order.includes(title) ? order.indexOf(title) : wildcard);
+  return weight(a) - weight(b) || a.localeCompare(b);
+}
+
+/**
+ * Release-stage modifier tags and the badge label each renders as, in precedence order
+ */
+const RELEASE_STAGES: Array<{ tag: `@${string}`; label: string }> = [
+  { tag: '@internal', label: 'Internal' },
+  { tag: '@alpha', label: 'Alpha' },
+  { tag: '@experimental', label: 'Experimental' },
+  { tag: '@beta', label: 'Beta' },
+];
+
+/**
+ * Gets the comment documenting a reflection
+ * Functions, methods and accessors carry their comment on a signature instead
+ */
+export function getReflectionComment(reflection: Reflection): Comment | undefined {
+  if (reflection.comment) {
+    return reflection.comment;
+  }
+  const decl = reflection as DeclarationReflection;
+  return decl.signatures?.[0]?.comment || decl.getSignature?.comment || decl.setSignature?.comment;
+}
+
+/**
+ * Checks whether a comment carries a `@deprecated` tag
+ */
+export function isDeprecated(comment: Comment | undefined): boolean {
+  return Boolean(comment?.getTag('@deprecated'));
+}
+
+/**
+ * Checks whether a reflection is deprecated as a whole
+ * Overloads without a shared comment are only deprecated when every overload is
+ */
+export function isReflectionDeprecated(reflection: Reflection): boolean {
+  const signatures = (reflection as DeclarationReflection).signatures || [];
+  if (!reflection.comment && signatures.length > 1) {
+    return signatures.every((signature) => isDeprecated(signature.comment));
+  }
+  return isDeprecated(getReflectionComment(reflection));
+}
+
+/**
+ * Gets the badge label for a comment's release-stage modifier (`@alpha`, `@beta`, ...)
+ */
+export function getReleaseStage(comment: Comment | undefined): string | undefined {
+  return RELEASE_STAGES.find((stage) => comment?.hasModifier(stage.tag))?.label;
+}
+
+/**
+ * Gets the version from a comment's `@since` tag
+ */
+export function getSinceVersion(comment: Comment | undefined): string | undefined {
+  const tag = comment?.getTag('@since');
+  const version = tag?.content
+    .map((part) => part.text)
+    .join('')
+    .trim();
+  return version || undefined;
+}
+
+/**
+ * Gets the status label Mintlify shows next to a page title and its sidebar entry
+ * Deprecation takes precedence over the release stage
+ */
+export function getStatusTag(reflection: Reflection): string | undefined {
+  return isReflectionDeprecated(reflection)
+    ? 'Deprecated'
+    : getReleaseStage(getReflectionComment(reflection));
+}
+
+/**
+ * The `{Type}` annotations of each signature's `@throws` tags, in tag order
+ * Kept aside rather than written back into the comment, which other themes render as-is
+ */
+const thrownTypes = new WeakMap<SignatureReflection, Array<string | undefined>>();
+
+/**
+ * Records the `{Type}` annotations TypeDoc strips from a signature's `@throws` tags
+ * The thrown types are read from the declaration's JSDoc
+ */
+export function recordThrownTypes(signature: SignatureReflection, node: ts.Node | undefined): void {
+  if (!signature.comment || !node) {
+    return;
+  }
+
+  const throwsTags = signature.comment.blockTags.filter((tag) => tag.tag === '@throws');
+  const types = ts
+    .getJSDocTags(node)
+    .filter(ts.isJSDocThrowsTag)
+    .map((tag) => tag.typeExpression?.type.getText());
+
+  // Tags can only be paired up reliably when both sides list the same number of them
+  if (throwsTags.length > 0 && throwsTags.length === types.length) {
+    thrownTypes.set(signature, types);
+  }
+}
+
+/**
+ * Gets the types a signature's `@throws` tags annotate, in tag order
+ */
+export function getThrownTypes(signature: SignatureReflection): Array<string | undefined> {
+  return thrownTypes.get(signature) || [];
+}
+
 /**
  * Determines if a reflection should have its own page
  */
@@ -336,6 +674,7 @@ export function shouldHaveOwnPage(reflection: Reflection): boolean {
     2, // Module
     4, // Namespace
     8, // Enum
+    32, // Variable
     64, // Function
     128, // Class
     256, // Interface
@@ -0,0 +1,306 @@
+import { existsSync, readFileSync } from 'fs';
+import { join, posix } from 'path';
+import { createProcessor } from '@mdx-js/mdx';
+import type { Reflection } from 'typedoc';
+import { toPagePath } from './link-resolver.js';
+import { getHeadingAnchor } from './utils.js';
+
+/**
+ * Components Mintlify provides globally
+ * See: https://mintlify.com/docs/components
+ */
+const MINTLIFY_COMPONENTS = new Set([
+  'Accordion',
+  'AccordionGroup',
+  'Badge',
+  'Callout',
+  'Card',
+  'CardGroup',
+  'Check',
+  'CodeGroup',
+  'Color',
+  'Column',
+  'Columns',
+  'Danger',
+  'Expandable',
+  'Frame',
+  'Icon',
+  'Info',
+  'Latex',
+  'Note',
+  'Panel',
+  'ParamField',
+  'RequestExample',
+  'ResponseExample',
+  'ResponseField',
+  'Snippet',
+  'Step',
+  'Steps',
+  'Tab',
+  'Tabs',
+  'Tile',
+  'Tip',
+  'Tooltip',
+  'Tree',
+  'Update',
+  'View',
+  'Warning',
+]);
+
+/**
+ * URL path every generated page lives under, see `toPagePath`
+ */
+const API_ROOT = '/api';
+
+/**
+ * How validation problems are reported: not at all, as warnings, or as errors that fail the build
+ */
+export type ValidationMode = 'off' | 'warn' | 'error';
+
+/**
+ * A problem found in a generated page
+ */
+export interface ValidationDiagnostic {
+  file: string;
+  line?: number;
+  column?: number;
+  message: string;
+}
+
+/**
+ * The subset of mdast/MDX syntax tree nodes the validator inspects
+ */
+interface MdxNode {
+  type: string;
+  name?: string | null;
+  url?: string;
+  value?: unknown;
+  attributes?: Array<{ type: string; name?: string; value?: unknown }>;
+  children?: MdxNode[];
+  position?: { start: { line: number; column: number } };
+}
+
+/**
+ * A link found in a page, with the position it was written at
+ */
+interface PageLink {
+  url: string;
+  line?: number;
+  column?: number;
+}
+
+/**
+ * What the validator learned from parsing one generated page
+ */
+interface ParsedPage {
+  file: string;
+  pagePath: string;
+  anchors: Set<string>;
+  links: PageLink[];
+}
+
+/**
+ * Validates the generated pages after rendering
+ * Every page is parsed with the MDX compiler Mintlify uses, internal links are checked against
+ * the generated pages and their anchors, ids must be unique on their page, and JSX tags must be
+ * Mintlify components.
+ */
+export class MintlifyValidator {
+  private outputDir: string;
+  private urls: Array<{ url: string; model: Reflection }>;
+
+  constructor(outputDir: string, urls: Array<{ url: string; model: Reflection }> = []) {
+    this.outputDir = outputDir;
+    this.urls = urls;
+  }
+
+  /**
+   * Validate every generated page, returning diagnostics in page order
+   */
+  validate(): ValidationDiagnostic[] {
+    const diagnostics: ValidationDiagnostic[] = [];
+    const pages = new Map<string, ParsedPage | undefined>();
+
+    for (const mapping of this.urls) {
+      const pagePath = `/${toPagePath(mapping.url)}`;
+      const file = join(this.outputDir, mapping.url);
+      if (pages.has(pagePath) || !existsSync(file)) {
+        continue;
+      }
+      // Pages that fail to parse still exist, but their anchors are unknown
+      pages.set(pagePath, this.parsePage(file, pagePath, diagnostics));
+    }
+
+    for (const page of pages.values()) {
+      if (!page) {
+        continue;
+      }
+      for (const link of page.links) {
+        const problem = this.checkLink(link.url, page, pages);
+        if (problem) {
+          diagnostics.push({
+            file: page.file,
+            line: link.line,
+            column: link.column,
+            message: problem,
+          });
+        }
+      }
+    }
+
+    return diagnostics;
+  }
+
+  /**
+   * Parse a page, collecting its anchors and links and reporting syntax errors and
+   * unknown components
+   */
+  private parsePage(
+    file: string,
+    pagePath: string,
+    diagnostics: ValidationDiagnostic[]
+  ): ParsedPage | undefined {
+    // Mintlify reads YAML frontmatter itself; blank it out so line numbers stay accurate
+    const contents = readFileSync(file, 'utf-8').replace(
+      /^---\n[\s\S]*?\n---(?=\n)/,
+      (frontmatter) => frontmatter.replace(/[^\n]/g, '')
+    );
+
+    let tree: MdxNode;
+    try {
+      tree = createProcessor().parse(contents) as unknown as MdxNode;
+    } catch (error) {
+      const message = error as {
+        reason?: string;
+        message?: string;
+        line?: number;
+        column?: number;
+      };
+      diagnostics.push({
+        file,
+        line: message.line,
+        column: message.column,
+        message: `Invalid MDX: ${message.reason || message.message}`,
+      });
+      return undefined;
+    }
+
+    const page: ParsedPage = { file, pagePath, anchors: new Set(), links: [] };
+    const headingCounts = new Map<string, number>();
+
+    // Links to an id shared by two elements land on the first, whichever that is
+    const addAnchor = (anchor: string, position?: { line: number; column: number }) => {
+      if (page.anchors.has(anchor)) {
+        diagnostics.push({
+          file,
+          line: position?.line,
+          column: position?.column,
+          message: `Duplicate id #${anchor}`,
+        });
+      }
+      page.anchors.add(anchor);
+    };
+
+    const visit = (node: MdxNode) => {
+      const position = node.position?.start;
+
+      if (node.type === 'heading') {
+        // Mintlify derives heading ids like GitHub does, numbering repeated headings
+        const slug = getHeadingAnchor(this.getText(node));
+        const count = headingCounts.get(slug) || 0;
+        headingCounts.set(slug, count + 1);
+        addAnchor(count === 0 ? slug : `${slug}-${count}`, position);
+      }
+
+      if (node.type === 'link' && node.url) {
+        page.links.push({ url: node.url, line: position?.line, column: position?.column });
+      }
+
+      if (node.type === 'mdxJsxFlowElement' || node.type === 'mdxJsxTextElement') {
+        const name = node.name || '';
+        // Lowercase names are plain HTML elements; fragments have no name
+        if (/^[A-Z]/.test(name) && !MINTLIFY_COMPONENTS.has(name)) {
+          diagnostics.push({
+            file,
+            line: position?.line,
+            column: position?.column,
+            message: `Unknown component <${name}>`,
+          });
+        }
+
+        for (const attribute of node.attributes || []) {
+          if (attribute.type !== 'mdxJsxAttribute' || typeof attribute.value !== 'string') {
+            continue;
+          }
+          if (attribute.name === 'id') {
+            addAnchor(attribute.value, position);
+          } else if (attribute.name === 'href') {
+            page.links.push({
+              url: attribute.value,
+              line: position?.line,
+              column: position?.column,
+            });
+          }
+        }
+      }
+
+      for (const child of node.children || []) {
+        visit(child);
+      }
+    };
+    visit(tree);
+
+    return page;
+  }
+
+  /**
+   * Check that an internal link points to a generated page, and to an anchor on it
+   * External links and pages outside the generated API reference are not checked
+   */
+  private checkLink(
+    url: string,
+    page: ParsedPage,
+    pages: Map<string, ParsedPage | undefined>
+  ): string | undefined {
+    if (/^[a-z][a-z0-9+.-]*:/i.test(url) || url.startsWith('//')) {
+      return undefined;
+    }
+
+    const [pathPart, anchor] = url.split('#');
+    const path = pathPart.split('?')[0];
+
+    let targetPath = page.pagePath;
+    if (path) {
+      // Relative links resolve against the linking page's directory
+      const absolute = path.startsWith('/') ? path : posix.join(posix.dirname(page.pagePath), path);
+      targetPath = absolute.replace(/\.mdx?$/, '').replace(/\/$/, '');
+    }
+
+    if (!targetPath.startsWith(`${API_ROOT}/`) && targetPath !== API_ROOT) {
+      return undefined;
+    }
+
+    const candidates = [targetPath, `${targetPath}/index`];
+    const target = candidates.find((candidate) => pages.has(candidate));
+    if (!target) {
+      return `Broken link to ${url}: no page was generated at ${targetPath}`;
+    }
+
+    const targetPage = pages.get(target);
+    if (anchor && targetPage && !targetPage.anchors.has(anchor)) {
+      return `Broken link to ${url}: ${target} has no #${anchor} anchor`;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Get the plain text of a node, as used for heading ids
+   */
+  private getText(node: MdxNode): string {
+    if (typeof node.value === 'string' && (node.type === 'text' || node.type === 'inlineCode')) {
+      return node.value;
+    }
+    return (node.children || []).map((child) => this.getText(child)).join('');
+  }
+}
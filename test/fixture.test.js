@@ -0,0 +1,316 @@
+import { spawnSync } from 'node:child_process';
+import { existsSync, mkdtempSync, readdirSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+import { after, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { fileURLToPath } from 'node:url';
+
+const root = dirname(dirname(fileURLToPath(import.meta.url)));
+const fixtureDir = join(root, 'test', 'fixture');
+const typedocBin = join(root, 'node_modules', 'typedoc', 'bin', 'typedoc');
+const tempDirs = [];
+
+/**
+ * Create an output directory, holding the given files
+ */
+function createOutputDir(files = {}) {
+  const outputDir = mkdtempSync(join(tmpdir(), 'typedoc-mintlify-'));
+  tempDirs.push(outputDir);
+  for (const [name, content] of Object.entries(files)) {
+    writeFileSync(join(outputDir, name), content, 'utf-8');
+  }
+  return outputDir;
+}
+
+/**
+ * Build the fixture project with the plugin from dist, failing on invalid MDX
+ */
+function buildFixture(args = [], outputDir = createOutputDir()) {
+  const result = spawnSync(
+    process.execPath,
+    [typedocBin, '--out', join(outputDir, 'api'), '--mintlifyOutput', outputDir, ...args],
+    { cwd: fixtureDir, encoding: 'utf-8', timeout: 120000 }
+  );
+  const log = `${result.stdout}${result.stderr}`;
+  assert.equal(result.status, 0, log);
+  assert.doesNotMatch(log, /\[error\]/, log);
+  assert.match(log, /found 0 problems/, log);
+  return outputDir;
+}
+
+/**
+ * List the generated pages, relative to the output directory
+ */
+function listPages(outputDir) {
+  return readdirSync(join(outputDir, 'api'), { recursive: true })
+    .filter((file) => file.endsWith('.mdx'))
+    .map((file) => `api/${file.split('\\').join('/')}`)
+    .sort();
+}
+
+/**
+ * List the page paths of a navigation group and its nested groups
+ */
+function listNavigationPages(group) {
+  return group.pages.flatMap((page) =>
+    typeof page === 'string' ? [page] : listNavigationPages(page)
+  );
+}
+
+function readJson(file) {
+  return JSON.parse(readFileSync(file, 'utf-8'));
+}
+
+after(() => {
+  for (const dir of tempDirs) {
+    rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+describe('fixture project', () => {
+  it('renders valid pages, a minimal mint.json, llms.txt and the manifest', () => {
+    const outputDir = buildFixture(['--mintlifyLlmsTxt', '--mintlifyApiManifest']);
+    const pages = listPages(outputDir);
+
+    for (const page of pages) {
+      assert.doesNotMatch(readFileSync(join(outputDir, page), 'utf-8'), /<Toc>/, page);
+    }
+
+    const mintJson = readJson(join(outputDir, 'mint.json'));
+    assert.deepEqual(Object.keys(mintJson).sort(), ['name', 'navigation']);
+    assert.deepEqual(
+      mintJson.navigation.map((group) => group.group),
+      ['API Reference']
+    );
+
+    // The project uses @category; the index lists pages by absolute URL only
+    const index = readFileSync(join(outputDir, 'api/index.mdx'), 'utf-8');
+    assert.doesNotMatch(index, /\]\([^)]*\.mdx\)/);
+    assert.equal(index.match(/\[Store\]/g).length, 1);
+
+    // See also comes after the member sections and is listed in the table of contents
+    const store = readFileSync(join(outputDir, 'api/client/classes/Store.mdx'), 'utf-8');
+    assert.match(store, /- \[See also\]\(#see-also\)/);
+    assert.ok(store.indexOf('### See also') > store.indexOf('### Methods'));
+    // Inline object types on class properties expand into nested fields
+    assert.match(store, /<ResponseField name="maxItems" type="number" required>/);
+
+    // Member anchors never collide with section heading ids
+    const client = readFileSync(join(outputDir, 'api/client/classes/Client.mdx'), 'utf-8');
+    assert.match(client, /^### Static Methods$/m);
+    assert.match(
+      client,
+      /\[Client\.methods\]\(\/api\/client\/classes\/Client#member-client-static-methods\)/
+    );
+
+    const full = readFileSync(join(outputDir, 'llms-full.txt'), 'utf-8');
+    assert.match(full, /^URL: \/api\/client\/classes\/Store$/m);
+    assert.match(full, /\[Map\]\([^)]+\)<string, \[Promise\]/);
+    assert.doesNotMatch(full, /&lt;|\\\{/);
+    assert.doesNotMatch(full, /<(ParamField|ResponseField|Expandable|CardGroup)\b/);
+
+    const manifest = readJson(join(outputDir, 'mintlify-api-manifest.json'));
+    assert.deepEqual(manifest.pages.map((page) => page.file).sort(), pages);
+    const byName = new Map(manifest.pages.map((page) => [page.name, page]));
+    assert.equal(byName.get('client.Store').category, 'Clients');
+    assert.equal(byName.get('client.Options').category, undefined);
+    assert.equal(byName.get('client.createClient').deprecated, true);
+
+    // Deprecating one overload marks only its tab, not the whole function
+    assert.equal(byName.get('client.connect').deprecated, false);
+    assert.match(index, /^ *- \[connect\]/m);
+    const connect = readFileSync(join(outputDir, 'api/client/functions/connect.mdx'), 'utf-8');
+    assert.doesNotMatch(connect, /^deprecated: true$/m);
+    assert.ok(connect.indexOf('<Warning>') > connect.indexOf('<Tab title="Overload 1">'));
+  });
+
+  it('renders one page per reflection with flattened output files', () => {
+    const outputDir = buildFixture(['--flattenOutputFiles']);
+    const pages = listPages(outputDir);
+
+    assert.deepEqual(
+      pages.filter((page) => /-\d+\.mdx$/.test(page)),
+      []
+    );
+    assert.ok(pages.includes('api/client.Class.Store.mdx'), pages.join('\n'));
+
+    const navigationPages = listNavigationPages(
+      readJson(join(outputDir, 'mint.json')).navigation[0]
+    );
+    assert.deepEqual(
+      navigationPages.sort(),
+      pages.map((page) => page.replace(/\.mdx$/, '')).sort()
+    );
+  });
+
+  it('orders category groups in docs.json by categoryOrder with Other last', () => {
+    const outputDir = buildFixture([
+      '--mintlifyConfigFormat',
+      'docs.json',
+      '--mintlifyGroupBy',
+      'category',
+    ]);
+    assert.ok(!existsSync(join(outputDir, 'mint.json')));
+
+    const docsJson = readJson(join(outputDir, 'docs.json'));
+    // theme and colors.primary are required by the docs.json schema
+    assert.deepEqual(Object.keys(docsJson), ['$schema', 'theme', 'name', 'colors', 'navigation']);
+    assert.equal(typeof docsJson.colors.primary, 'string');
+    const [apiGroup] = docsJson.navigation.groups;
+    const titles = apiGroup.pages
+      .filter((page) => typeof page !== 'string')
+      .map((page) => page.group);
+    assert.deepEqual(titles, ['Storage', 'Clients', 'Other']);
+  });
+
+  it('links hidden inherited members to the class that declares them', () => {
+    // TypeDoc's own link resolution keeps links on the inherited member
+    const outputDir = buildFixture([
+      '--mintlifyIncludeInherited',
+      'false',
+      '--useTsLinkResolution',
+      'false',
+    ]);
+    const page = readFileSync(join(outputDir, 'api/client/classes/PinnedStore.mdx'), 'utf-8');
+    assert.match(page, /\[PinnedStore\.get\]\(\/api\/client\/classes\/Store#member-store-get\)/);
+  });
+
+  it('groups navigation by qualified module and namespace names, module pages first', () => {
+    const outputDir = buildFixture(['--mintlifyGroupBy', 'module']);
+    const [apiGroup] = readJson(join(outputDir, 'mint.json')).navigation;
+    const groups = apiGroup.pages.filter((page) => typeof page !== 'string');
+
+    assert.deepEqual(
+      groups.map((group) => group.group),
+      ['client', 'client.Codes', 'errors', 'errors.Codes']
+    );
+    assert.deepEqual(
+      groups.map((group) => group.pages[0]),
+      [
+        'api/client/index',
+        'api/client/namespaces/Codes/index',
+        'api/errors/index',
+        'api/errors/namespaces/Codes/index',
+      ]
+    );
+  });
+
+  it('documents members on module pages with the "modules" output file strategy', () => {
+    const outputDir = buildFixture(['--outputFileStrategy', 'modules']);
+    const pages = listPages(outputDir);
+
+    for (const page of pages) {
+      const content = readFileSync(join(outputDir, page), 'utf-8');
+      assert.match(content, /^---\ntitle: /, page);
+      assert.doesNotMatch(content, /Defined in|^#####/m, page);
+    }
+
+    const client = readFileSync(join(outputDir, 'api/client/index.mdx'), 'utf-8');
+    assert.match(client, /<Card title="Store" icon="cube" href="\/api\/client\/index#[\w-]+" \/>/);
+    assert.match(client, /^#### Store$/m);
+  });
+
+  it('lists @throws types without writing them into the comments other outputs render', () => {
+    const outputDir = createOutputDir();
+    buildFixture(['--json', join(outputDir, 'project.json')], outputDir);
+
+    const store = readFileSync(join(outputDir, 'api/client/classes/Store.mdx'), 'utf-8');
+    assert.match(store, /^- \[TypeError\]\([^)]+\) — When the id is empty$/m);
+    assert.doesNotMatch(readFileSync(join(outputDir, 'project.json'), 'utf-8'), /\{TypeError\}/);
+  });
+
+  it('replaces only the API Reference group of an existing mint.json', () => {
+    const existing = {
+      $schema: 'https://mintlify.com/schema.json',
+      name: 'Acme',
+      logo: { light: '/logo/light.svg', dark: '/logo/dark.svg' },
+      favicon: '/favicon.svg',
+      colors: { primary: '#0D9373' },
+      navigation: [
+        { group: 'Get Started', pages: ['introduction'] },
+        { group: 'API Reference', pages: ['api/old'] },
+        { group: 'Support', pages: ['support'] },
+      ],
+      footerSocials: { github: 'https://github.com/acme' },
+    };
+    const outputDir = createOutputDir({ 'mint.json': JSON.stringify(existing, null, 2) });
+    buildFixture(['--mintlifyNavMerge'], outputDir);
+
+    const merged = readFileSync(join(outputDir, 'mint.json'), 'utf-8');
+    const mintJson = JSON.parse(merged);
+    assert.deepEqual(Object.keys(mintJson), Object.keys(existing));
+    assert.deepEqual(
+      mintJson.navigation.map((group) => group.group),
+      ['Get Started', 'API Reference', 'Support']
+    );
+    assert.deepEqual(mintJson.navigation[0], existing.navigation[0]);
+    assert.deepEqual(mintJson.navigation[2], existing.navigation[2]);
+    assert.ok(!listNavigationPages(mintJson.navigation[1]).includes('api/old'));
+    assert.ok(listNavigationPages(mintJson.navigation[1]).includes('api/client/classes/Store'));
+
+    buildFixture(['--mintlifyNavMerge'], outputDir);
+    assert.equal(readFileSync(join(outputDir, 'mint.json'), 'utf-8'), merged);
+  });
+
+  it('replaces an API Reference group nested in a tab of an existing docs.json', () => {
+    const existing = {
+      $schema: 'https://mintlify.com/docs.json',
+      theme: 'maple',
+      name: 'Acme',
+      colors: { primary: '#0D9373' },
+      navigation: {
+        tabs: [
+          {
+            tab: 'Guides',
+            pages: [
+              'welcome',
+              {
+                group: 'Guides',
+                pages: [
+                  {
+                    group: 'Intro',
+                    pages: ['guides/intro', { group: 'API Reference', pages: ['api/old'] }],
+                  },
+                  'guides/setup',
+                ],
+              },
+            ],
+          },
+          { tab: 'Changelog', pages: ['changelog'] },
+        ],
+      },
+      footer: { socials: { github: 'https://github.com/acme' } },
+    };
+    const outputDir = createOutputDir({ 'docs.json': JSON.stringify(existing, null, 2) });
+    const args = ['--mintlifyConfigFormat', 'docs.json', '--mintlifyNavMerge'];
+    buildFixture(args, outputDir);
+
+    const merged = readFileSync(join(outputDir, 'docs.json'), 'utf-8');
+    const docsJson = JSON.parse(merged);
+    assert.deepEqual(Object.keys(docsJson), Object.keys(existing));
+    assert.equal(docsJson.theme, 'maple');
+    assert.deepEqual(
+      docsJson.navigation.tabs.map((tab) => tab.tab),
+      ['Guides', 'Changelog']
+    );
+    const [welcome, guides] = docsJson.navigation.tabs[0].pages;
+    assert.equal(welcome, 'welcome');
+    assert.deepEqual(guides.pages[1], 'guides/setup');
+    const [intro, apiGroup] = guides.pages[0].pages;
+    assert.equal(intro, 'guides/intro');
+    assert.equal(apiGroup.group, 'API Reference');
+    assert.ok(!listNavigationPages(apiGroup).includes('api/old'));
+    assert.ok(listNavigationPages(apiGroup).includes('api/client/classes/Store'));
+
+    buildFixture(args, outputDir);
+    assert.equal(readFileSync(join(outputDir, 'docs.json'), 'utf-8'), merged);
+  });
+
+  it('leaves an existing mint.json unchanged outside merge mode', () => {
+    const existing = JSON.stringify({ name: 'Acme', navigation: [] });
+    const outputDir = createOutputDir({ 'mint.json': existing });
+    buildFixture([], outputDir);
+    assert.equal(readFileSync(join(outputDir, 'mint.json'), 'utf-8'), existing);
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * Client for the fixture API
+ * @module
+ */
+
+import { NotFoundError } from './errors.js';
+
+/**
+ * An item stored by the client
+ * @category Storage
+ */
+export interface Item {
+  /** Unique identifier */
+  id: string;
+  /** When the item was created */
+  createdAt: Date;
+}
+
+/**
+ * Holds items in a map
+ * @category Storage
+ */
+export interface Holder {
+  /** Items by id */
+  items: Map<string, Item>;
+  /** Tags attached to items */
+  tags: Record<string, string[]>;
+}
+
+/**
+ * Items looked up by id
+ * @category Storage
+ */
+export type Lookup = Record<string, Item>;
+
+/**
+ * Options for the client
+ */
+export interface Options {
+  /** Base URL of the API */
+  baseUrl: string;
+  /** Aborts pending requests */
+  signal?: AbortSignal;
+}
+
+/**
+ * Loads and caches items
+ * @see {@link Client}
+ * @category Clients
+ */
+export class Store {
+  /** Cached items */
+  cache: Map<string, Promise<Item>> = new Map();
+
+  /** Limits applied to the cache */
+  limits: { maxItems: number; ttl?: number } = { maxItems: 100 };
+
+  /**
+   * Every stored item
+   */
+  get items(): Promise<Item[]> {
+    return Promise.resolve([]);
+  }
+
+  /**
+   * Replaces the stored items
+   */
+  set snapshot(value: Record<string, Item>) {
+    void value;
+  }
+
+  /**
+   * Fetch one item
+   * @param id Item id
+   * @throws {@link NotFoundError} When no item has the id
+   * @throws {TypeError} When the id is empty
+   * @see {@link Item}
+   * @see https://example.com/docs/store
+   */
+  async get(id: string): Promise<Item> {
+    throw new NotFoundError(id);
+  }
+}
+
+/**
+ * Talks to the fixture API
+ * @category Clients
+ */
+export class Client {
+  /**
+   * Create a client
+   * @param options Client options
+   */
+  constructor(public options: Options) {}
+
+  /**
+   * Stream events until the signal aborts
+   * @param signal Stops the stream
+   */
+  stream(signal: AbortSignal): ReadableStream<Uint8Array> {
+    void signal;
+    return new ReadableStream();
+  }
+
+  /**
+   * Read a file into a buffer
+   */
+  read(path: string): Promise<Buffer> {
+    return Promise.resolve(Buffer.from(path));
+  }
+
+  /**
+   * Check the connection
+   */
+  ping(): Promise<number> {
+    return Promise.resolve(0);
+  }
+
+  /**
+   * Close the client
+   */
+  close(mode: 'force' | 'graceful'): void {
+    void mode;
+  }
+
+  /**
+   * List the API methods a client can call; see {@link Client.methods}
+   */
+  static methods(): string[] {
+    return ['ping', 'read', 'stream'];
+  }
+}
+
+/**
+ * A store that keeps items forever; read them with {@link PinnedStore.get}
+ * @category Storage
+ */
+export class PinnedStore extends Store {
+  /**
+   * Drop every item
+   */
+  clear(): void {
+    this.cache.clear();
+  }
+}
+
+/**
+ * Resolves once the client is ready
+ */
+export const PENDING: Promise<void> = Promise.resolve();
+
+/**
+ * Create a client
+ * @category Clients
+ * @deprecated Use {@link Client} directly.
+ */
+export function createClient(options: Options): Client {
+  return new Client(options);
+}
+
+/**
+ * Connect to the API at a base URL
+ * @category Clients
+ * @deprecated Pass {@link Options} instead.
+ */
+export function connect(baseUrl: string): Client;
+/**
+ * Connect to the API with options
+ * @category Clients
+ */
+export function connect(options: Options): Client;
+export function connect(target: string | Options): Client {
+  return new Client(typeof target === 'string' ? { baseUrl: target } : target);
+}
+
+/**
+ * Status codes the client reports
+ */
+// eslint-disable-next-line @typescript-eslint/no-namespace
+export namespace Codes {
+  /**
+   * Describe a client status code
+   */
+  export function describe(code: number): string {
+    return `client ${code}`;
+  }
+}
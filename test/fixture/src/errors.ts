@@ -0,0 +1,34 @@
+/**
+ * Errors thrown by the fixture API
+ * @module
+ */
+
+/**
+ * Thrown when an item does not exist
+ */
+export class NotFoundError extends Error {
+  constructor(id: string) {
+    super(`No item ${id}`);
+  }
+}
+
+/**
+ * Options for building errors, sharing a name with the client options
+ */
+export interface Options {
+  /** Message prefix */
+  prefix: string;
+}
+
+/**
+ * Status codes errors carry, sharing a name with the client codes
+ */
+// eslint-disable-next-line @typescript-eslint/no-namespace
+export namespace Codes {
+  /**
+   * Describe an error status code
+   */
+  export function describe(code: number): string {
+    return `error ${code}`;
+  }
+}